@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { debtItemSchema } from "@/lib/schemas";
+import StockPicker, { CUSTOM_ITEM, StockOption } from "./StockPicker";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+interface AddItemsModalProps {
+  userId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  debtor: {
+    id: string;
+    customer_name: string;
+    current_balance: number;
+  } | null;
+  onItemsAdded: () => void;
+}
+
+interface NewItem {
+  stock_id: string | null;
+  item_date: string;
+  due_date: string | null;
+  item_name: string;
+  quantity: number;
+  selling_price: number;
+  total: number;
+}
+
+const emptyItem = () => ({
+  item_date: format(new Date(), "yyyy-MM-dd"),
+  due_date: "",
+  stock_id: "",
+  stock_quantity: 0,
+  item_name: "",
+  quantity: "",
+  selling_price: "",
+});
+
+const AddItemsModal = ({ userId, isOpen, onClose, debtor, onItemsAdded }: AddItemsModalProps) => {
+  const [items, setItems] = useState<NewItem[]>([]);
+  const [currentItem, setCurrentItem] = useState(emptyItem());
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { formatAmount, symbol } = useCurrency();
+
+  const handleItemChange = (field: string, value: string) => {
+    setCurrentItem({ ...currentItem, [field]: value });
+    setItemErrors({ ...itemErrors, [field]: "" });
+  };
+
+  const handleStockSelect = (item: StockOption | null) => {
+    setCurrentItem({
+      ...currentItem,
+      stock_id: item ? item.id : CUSTOM_ITEM,
+      stock_quantity: item ? item.quantity : 0,
+      item_name: item ? item.product_name : "",
+      selling_price: item?.selling_price ? String(item.selling_price) : currentItem.selling_price,
+    });
+    setItemErrors({ ...itemErrors, item_name: "", selling_price: "" });
+  };
+
+  const addItem = () => {
+    const validation = debtItemSchema.safeParse(currentItem);
+    if (!validation.success) {
+      const newErrors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) newErrors[err.path[0].toString()] = err.message;
+      });
+      setItemErrors(newErrors);
+      return;
+    }
+
+    if (currentItem.due_date && currentItem.due_date < currentItem.item_date) {
+      setItemErrors({ due_date: "Due date cannot be before the item date" });
+      return;
+    }
+
+    const quantity = parseInt(currentItem.quantity);
+    const sellingPrice = parseFloat(currentItem.selling_price);
+    const stockId = currentItem.stock_id && currentItem.stock_id !== CUSTOM_ITEM ? currentItem.stock_id : null;
+
+    if (stockId) {
+      const alreadyAdded = items
+        .filter((item) => item.stock_id === stockId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      if (alreadyAdded + quantity > currentItem.stock_quantity) {
+        setItemErrors({ quantity: `Only ${currentItem.stock_quantity - alreadyAdded} units available in stock` });
+        return;
+      }
+    }
+
+    setItems([
+      ...items,
+      {
+        stock_id: stockId,
+        item_date: currentItem.item_date,
+        due_date: currentItem.due_date || null,
+        item_name: currentItem.item_name.trim(),
+        quantity,
+        selling_price: sellingPrice,
+        total: quantity * sellingPrice,
+      },
+    ]);
+    setCurrentItem(emptyItem());
+    setItemErrors({});
+  };
+
+  const removeItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+  };
+
+  const handleClose = () => {
+    setItems([]);
+    setCurrentItem(emptyItem());
+    setItemErrors({});
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!debtor) return;
+
+    if (items.length === 0) {
+      toast({ title: "Please add at least one item", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+
+    // Grand total, balance and status are recomputed from the ledger by database triggers
+    const { error } = await supabase.from("debt_items").insert(
+      items.map((item) => ({
+        debtor_id: debtor.id,
+        stock_id: item.stock_id,
+        item_date: item.item_date,
+        due_date: item.due_date,
+        item_name: item.item_name,
+        quantity: item.quantity,
+        selling_price: item.selling_price,
+        total: item.total,
+      }))
+    );
+
+    setLoading(false);
+
+    if (error) {
+      if (error.message === "insufficient_stock") {
+        toast({ title: "Insufficient stock", description: error.details, variant: "destructive" });
+      } else {
+        toast({ title: "Error adding items", description: error.message, variant: "destructive" });
+      }
+      return;
+    }
+
+    toast({ title: `Added ${items.length} item${items.length === 1 ? "" : "s"} to ${debtor.customer_name}` });
+    onItemsAdded();
+    handleClose();
+  };
+
+  if (!debtor) return null;
+
+  const itemsTotal = items.reduce((sum, item) => sum + item.total, 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Items - {debtor.customer_name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={currentItem.item_date}
+                onChange={(e) => handleItemChange("item_date", e.target.value)}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label>Due Date</Label>
+              <Input
+                type="date"
+                value={currentItem.due_date}
+                onChange={(e) => handleItemChange("due_date", e.target.value)}
+                className="mt-2"
+              />
+              {itemErrors.due_date ? (
+                <p className="text-destructive text-sm mt-1">{itemErrors.due_date}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground mt-1">Blank follows the account's terms</p>
+              )}
+            </div>
+            <div>
+              <Label>Item *</Label>
+              <StockPicker
+                userId={userId}
+                value={currentItem.stock_id}
+                onSelect={handleStockSelect}
+                className="mt-2"
+              />
+              {currentItem.stock_id === CUSTOM_ITEM && (
+                <Input
+                  value={currentItem.item_name}
+                  onChange={(e) => handleItemChange("item_name", e.target.value)}
+                  placeholder="Enter item name"
+                  className="mt-2"
+                />
+              )}
+              {itemErrors.item_name && <p className="text-destructive text-sm mt-1">{itemErrors.item_name}</p>}
+            </div>
+            <div>
+              <Label>Quantity *</Label>
+              <Input
+                type="number"
+                min="1"
+                value={currentItem.quantity}
+                onChange={(e) => handleItemChange("quantity", e.target.value)}
+                placeholder="1"
+                className="mt-2"
+              />
+              {itemErrors.quantity && <p className="text-destructive text-sm mt-1">{itemErrors.quantity}</p>}
+            </div>
+            <div>
+              <Label>Selling Price ({symbol}) *</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={currentItem.selling_price}
+                onChange={(e) => handleItemChange("selling_price", e.target.value)}
+                placeholder="0.00"
+                className="mt-2"
+              />
+              {itemErrors.selling_price && <p className="text-destructive text-sm mt-1">{itemErrors.selling_price}</p>}
+            </div>
+          </div>
+          <Button type="button" variant="secondary" onClick={addItem}>
+            Add Item
+          </Button>
+
+          {items.length > 0 && (
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+              {items.map((item, index) => (
+                <li key={index} className="bg-muted p-3 rounded flex justify-between items-center text-sm">
+                  <span>
+                    {item.item_name} - Qty: {item.quantity} - Total: {formatAmount(item.total)}
+                    {item.due_date && ` - Due: ${format(new Date(`${item.due_date}T00:00:00`), "MMM dd, yyyy")}`}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => removeItem(index)}>
+                    <Trash2 size={16} className="text-destructive" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="bg-muted p-4 rounded-lg space-y-2">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Current Balance:</span>
+              <span className="font-bold">{formatAmount(debtor.current_balance)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">New Items:</span>
+              <span className="font-bold">{formatAmount(itemsTotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">New Balance:</span>
+              <span className="font-bold text-warning">{formatAmount(debtor.current_balance + itemsTotal)}</span>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" onClick={handleClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} className="flex-1" disabled={loading || items.length === 0}>
+              {loading ? "Saving..." : "Add to Account"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddItemsModal;
@@ -0,0 +1,324 @@
+import { useState, useEffect, Fragment } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Label } from "./ui/label";
+import { Card } from "./ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import ExportMenu from "./ExportMenu";
+import { exportReport, ExportCellType, ExportFormat, ExportTable } from "@/lib/exportReport";
+import { AGING_BUCKETS, AgingBasis, AgingBucket, AgingDebtor, AgingItem, buildAging } from "@/lib/aging";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+interface AgingReportProps {
+  userId: string;
+  debtors: AgingDebtor[];
+}
+
+const BASIS_LABELS: Record<AgingBasis, string> = {
+  due_date: "Days past due date",
+  item_date: "Days since item date",
+};
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: "text-success",
+  "1-30": "text-info",
+  "31-60": "text-warning",
+  "61-90": "text-warning",
+  "90+": "text-destructive",
+};
+
+const PAGE_SIZE = 1000;
+
+const displayDate = (value: string) => format(new Date(`${value}T00:00:00`), "MMM dd, yyyy");
+
+const AgingReport = ({ userId, debtors }: AgingReportProps) => {
+  const [items, setItems] = useState<AgingItem[]>([]);
+  const [basis, setBasis] = useState<AgingBasis>("due_date");
+  const [bucketFilter, setBucketFilter] = useState<AgingBucket | "all">("all");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { currency, formatAmount } = useCurrency();
+
+  // Only accounts with a balance have anything to age; pages keep requests under the
+  // API's row limit
+  const fetchItems = async () => {
+    setLoading(true);
+    const rows: AgingItem[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("debt_items")
+        .select("id, debtor_id, item_date, due_date, item_name, quantity, total, created_at, debtors!inner(user_id, status)")
+        .eq("debtors.user_id", userId)
+        .eq("debtors.status", "pending")
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        setLoading(false);
+        toast({ title: "Error fetching aging report", description: error.message, variant: "destructive" });
+        return;
+      }
+      rows.push(...data);
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    setLoading(false);
+    setItems(rows);
+  };
+
+  // Debtors change whenever an item or payment is recorded, so the report follows them
+  useEffect(() => {
+    fetchItems();
+  }, [userId, debtors]);
+
+  const aging = buildAging(debtors, items, basis);
+  const rows = bucketFilter === "all" ? aging.rows : aging.rows.filter((row) => row.buckets[bucketFilter] > 0);
+  const share = (amount: number) => (aging.total > 0 ? Math.round((amount / aging.total) * 100) : 0);
+
+  const toggleBucket = (bucket: AgingBucket | "all") => {
+    setBucketFilter(bucketFilter === bucket ? "all" : bucket);
+    setExpanded(null);
+  };
+
+  const exportAging = async (exportFormat: ExportFormat) => {
+    if (aging.rows.length === 0) {
+      toast({ title: "No outstanding balances to export", variant: "destructive" });
+      return;
+    }
+
+    const money = (column: string) => `${column} (${currency})`;
+    const types: Record<string, ExportCellType> = {
+      "Item Date": "date",
+      "Due Date": "date",
+      Quantity: "integer",
+      "Days Old": "integer",
+    };
+    [...AGING_BUCKETS.map((bucket) => bucket.label), "Total", "Open Amount"].forEach((column) => {
+      types[money(column)] = "amount";
+    });
+
+    const tables: ExportTable[] = [
+      {
+        name: "Aging Summary",
+        title: "Receivables Aging by Customer",
+        rows: aging.rows.map((row) => ({
+          Customer: row.debtor.customer_name,
+          Phone: row.debtor.customer_phone,
+          ...Object.fromEntries(AGING_BUCKETS.map((bucket) => [money(bucket.label), row.buckets[bucket.key]])),
+          [money("Total")]: row.total,
+        })),
+        types,
+        totals: [...AGING_BUCKETS.map((bucket) => money(bucket.label)), money("Total")],
+      },
+      {
+        name: "Open Items",
+        title: "Open Items",
+        rows: aging.rows.flatMap((row) =>
+          row.items.map((item) => ({
+            Customer: row.debtor.customer_name,
+            "Item Date": item.item_date,
+            "Due Date": item.due_date || "",
+            Item: item.item_name,
+            Quantity: item.quantity,
+            "Days Old": Math.max(item.days, 0),
+            Bucket: AGING_BUCKETS.find((bucket) => bucket.key === item.bucket)?.label,
+            [money("Open Amount")]: item.open,
+          }))
+        ),
+        types,
+        totals: [money("Open Amount")],
+      },
+    ];
+
+    try {
+      await exportReport(
+        exportFormat,
+        `aging_report_${aging.asOf}`,
+        tables,
+        `${BASIS_LABELS[basis]} as of ${aging.asOf}`
+      );
+    } catch (error) {
+      toast({
+        title: "Error exporting aging report",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({ title: "Aging report exported successfully!" });
+  };
+
+  return (
+    <Card className="p-5">
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
+        <h2 className="text-xl font-semibold">⏳ Receivables Aging</h2>
+        <div className="flex items-end gap-2">
+          <div className="w-[200px]">
+            <Label className="text-xs">Age By</Label>
+            <Select value={basis} onValueChange={(value) => setBasis(value as AgingBasis)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(BASIS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ExportMenu onExport={exportAging} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-4">
+        <button
+          onClick={() => toggleBucket("all")}
+          className={`bg-gradient-primary p-4 rounded-lg text-center text-primary-foreground ${
+            bucketFilter === "all" ? "ring-2 ring-primary ring-offset-2" : ""
+          }`}
+        >
+          <p className="text-sm">Total Outstanding</p>
+          <p className="text-xl font-bold">{formatAmount(aging.total)}</p>
+        </button>
+        {AGING_BUCKETS.map((bucket) => (
+          <button
+            key={bucket.key}
+            onClick={() => toggleBucket(bucket.key)}
+            className={`bg-muted p-4 rounded-lg text-center hover:bg-muted/70 ${
+              bucketFilter === bucket.key ? "ring-2 ring-primary" : ""
+            }`}
+            title={`Show customers with ${bucket.label.toLowerCase()} balances`}
+          >
+            <p className="text-sm text-muted-foreground">{bucket.label}</p>
+            <p className={`text-xl font-bold ${BUCKET_COLORS[bucket.key]}`}>{formatAmount(aging.totals[bucket.key])}</p>
+            <p className="text-xs text-muted-foreground">{share(aging.totals[bucket.key])}%</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="p-3 text-left">Customer</th>
+              {AGING_BUCKETS.map((bucket) => (
+                <th key={bucket.key} className="p-3 text-right whitespace-nowrap">
+                  {bucket.label}
+                </th>
+              ))}
+              <th className="p-3 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="p-6 text-center text-muted-foreground">
+                  Loading aging report...
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="p-6 text-center text-muted-foreground">
+                  No outstanding balances
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <Fragment key={row.debtor.id}>
+                  <tr
+                    className="border-b hover:bg-muted/50 cursor-pointer"
+                    onClick={() => setExpanded(expanded === row.debtor.id ? null : row.debtor.id)}
+                  >
+                    <td className="p-3">
+                      <div className="flex items-center gap-1">
+                        {expanded === row.debtor.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        <div>
+                          <p className="font-semibold">{row.debtor.customer_name}</p>
+                          <p className="text-xs text-muted-foreground">{row.debtor.customer_phone}</p>
+                        </div>
+                      </div>
+                    </td>
+                    {AGING_BUCKETS.map((bucket) => (
+                      <td
+                        key={bucket.key}
+                        className={`p-3 text-right ${row.buckets[bucket.key] > 0 ? BUCKET_COLORS[bucket.key] : "text-muted-foreground"}`}
+                      >
+                        {row.buckets[bucket.key] > 0 ? formatAmount(row.buckets[bucket.key]) : "-"}
+                      </td>
+                    ))}
+                    <td className="p-3 text-right font-semibold">{formatAmount(row.total)}</td>
+                  </tr>
+                  {expanded === row.debtor.id && (
+                    <tr className="border-b bg-muted/30">
+                      <td colSpan={7} className="p-3">
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="text-muted-foreground">
+                              <th className="p-1 text-left">Item Date</th>
+                              <th className="p-1 text-left">Due Date</th>
+                              <th className="p-1 text-left">Item</th>
+                              <th className="p-1 text-right">Days</th>
+                              <th className="p-1 text-left">Bucket</th>
+                              <th className="p-1 text-right">Open Amount</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {row.items
+                              .filter((item) => bucketFilter === "all" || item.bucket === bucketFilter)
+                              .map((item) => (
+                                <tr key={item.id}>
+                                  <td className="p-1 whitespace-nowrap">{displayDate(item.item_date)}</td>
+                                  <td className="p-1 whitespace-nowrap">{item.due_date ? displayDate(item.due_date) : "-"}</td>
+                                  <td className="p-1">
+                                    {item.item_name} × {item.quantity}
+                                  </td>
+                                  <td className="p-1 text-right">{Math.max(item.days, 0)}</td>
+                                  <td className={`p-1 ${BUCKET_COLORS[item.bucket]}`}>
+                                    {AGING_BUCKETS.find((bucket) => bucket.key === item.bucket)?.label}
+                                  </td>
+                                  <td className="p-1 text-right font-semibold">{formatAmount(item.open)}</td>
+                                </tr>
+                              ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+          {rows.length > 0 && !loading && (
+            <tfoot>
+              <tr className="font-semibold border-t-2">
+                <td className="p-3">Total</td>
+                {AGING_BUCKETS.map((bucket) => (
+                  <td key={bucket.key} className="p-3 text-right">
+                    {formatAmount(rows.reduce((sum, row) => sum + row.buckets[bucket.key], 0))}
+                  </td>
+                ))}
+                <td className="p-3 text-right">{formatAmount(rows.reduce((sum, row) => sum + row.total, 0))}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground mt-3">
+        Payments are applied to the earliest due items first. Items without a due date age from their item date.
+      </p>
+    </Card>
+  );
+};
+
+export default AgingReport;
@@ -5,6 +5,10 @@ import { Button } from "./ui/button";
 import { format, subDays, startOfMonth, endOfMonth, subMonths } from "date-fns";
 import { Printer, TrendingUp, TrendingDown, Minus, AlertTriangle, Users } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "./ui/alert";
+import CustomerProfile from "./CustomerProfile";
+import { useCurrency } from "@/hooks/use-currency";
+import { productCategory } from "@/lib/products";
+import { debtStatus } from "@/lib/paymentTerms";
 import {
   LineChart,
   Line,
@@ -29,22 +33,34 @@ interface MonthlyComparison {
   lastMonth: { revenue: number; profit: number; sales: number; expenses: number };
 }
 
+interface CategoryStat {
+  name: string;
+  revenue: number;
+  profit: number;
+  quantity: number;
+}
+
 const COLORS = ["hsl(var(--primary))", "hsl(var(--success))", "hsl(var(--warning))", "hsl(var(--info))"];
 
 const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
   const [salesData, setSalesData] = useState<any[]>([]);
   const [debtData, setDebtData] = useState<any[]>([]);
   const [productStats, setProductStats] = useState<any[]>([]);
+  const [categoryStats, setCategoryStats] = useState<CategoryStat[]>([]);
   const [monthlyComparison, setMonthlyComparison] = useState<MonthlyComparison>({
     thisMonth: { revenue: 0, profit: 0, sales: 0, expenses: 0 },
     lastMonth: { revenue: 0, profit: 0, sales: 0, expenses: 0 },
   });
   const [debtSummary, setDebtSummary] = useState({ outstanding: 0, collected: 0 });
   const [expenseSummary, setExpenseSummary] = useState({ total: 0, count: 0 });
+  const [creditSalesSummary, setCreditSalesSummary] = useState({ revenue: 0, profit: 0 });
+  const [basketCount, setBasketCount] = useState(0);
   const [profitMarginGoal, setProfitMarginGoal] = useState(20);
   const [customerLoyalty, setCustomerLoyalty] = useState<any[]>([]);
+  const [profileCustomerId, setProfileCustomerId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const printRef = useRef<HTMLDivElement>(null);
+  const { formatAmount } = useCurrency();
 
   useEffect(() => {
     fetchAnalytics();
@@ -86,6 +102,64 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
       .gte("sale_date", lastMonthStart)
       .lte("sale_date", lastMonthEnd);
 
+    // Fetch stock-linked credit items (they carry a cost price, so profit is known)
+    const { data: creditItems } = await supabase
+      .from("debt_items")
+      .select("*")
+      .not("cost_price", "is", null)
+      .gte("item_date", lastMonthStart < thirtyDaysAgo ? lastMonthStart : thirtyDaysAgo)
+      .lte("item_date", thisMonthEnd);
+
+    // Credit sales count towards revenue and profit alongside cash sales
+    const creditLines = (creditItems || []).map((item) => ({
+      // Items added to an account together form one credit basket
+      basket: `${item.debtor_id}:${item.created_at}`,
+      stock_id: item.stock_id,
+      sale_date: item.item_date,
+      product_name: item.item_name,
+      quantity: item.quantity,
+      revenue: Number(item.total),
+      profit_loss: Number(item.total) - item.quantity * Number(item.cost_price),
+    }));
+    const creditLinesBetween = (from: string, to: string) =>
+      creditLines.filter((line) => line.sale_date >= from && line.sale_date <= to);
+
+    const recentCredit = creditLinesBetween(thirtyDaysAgo, today);
+    const recentLines = [...(sales || []), ...recentCredit].sort((a, b) => a.sale_date.localeCompare(b.sale_date));
+    const thisMonthLines = [...(thisMonthSales || []), ...creditLinesBetween(thisMonthStart, thisMonthEnd)];
+    const lastMonthLines = [...(lastMonthSales || []), ...creditLinesBetween(lastMonthStart, lastMonthEnd)];
+
+    // A basket is a receipt; sales recorded before receipts existed count as one each
+    setBasketCount(
+      new Set([
+        ...(sales || []).map((sale) => sale.receipt_id || sale.id),
+        ...recentCredit.map((line) => line.basket),
+      ]).size
+    );
+
+    setCreditSalesSummary({
+      revenue: recentCredit.reduce((sum, line) => sum + line.revenue, 0),
+      profit: recentCredit.reduce((sum, line) => sum + line.profit_loss, 0),
+    });
+
+    // Sales and credit items link to stock by id, which carries the product category
+    const { data: stockCategories } = await supabase
+      .from("stock")
+      .select("id, category")
+      .eq("user_id", userId);
+
+    const categoryByStock = new Map((stockCategories || []).map((item) => [item.id, item.category]));
+    const categoryMap = new Map<string, CategoryStat>();
+    recentLines.forEach((line) => {
+      const name = productCategory(line.stock_id ? categoryByStock.get(line.stock_id) : null);
+      const stat = categoryMap.get(name) || { name, revenue: 0, profit: 0, quantity: 0 };
+      stat.revenue += Number(line.revenue);
+      stat.profit += Number(line.profit_loss);
+      stat.quantity += line.quantity;
+      categoryMap.set(name, stat);
+    });
+    setCategoryStats([...categoryMap.values()].sort((a, b) => b.revenue - a.revenue));
+
     // Fetch debtors
     const { data: debtors } = await supabase
       .from("debtors")
@@ -127,38 +201,40 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
       setProfitMarginGoal(userSettings.profit_margin_goal);
     }
 
-    // Fetch all sales for customer loyalty tracking
-    const { data: allSales } = await supabase
-      .from("sales")
+    // Rank customers (not individual debt accounts) by lifetime purchases
+    const { data: customers } = await supabase
+      .from("customer_summaries")
       .select("*")
-      .eq("user_id", userId);
-
-    // Calculate customer loyalty from debtors (customers with purchase history)
-    if (debtors) {
-      const loyaltyData = debtors.map((debtor) => ({
-        name: debtor.customer_name,
-        phone: debtor.customer_phone,
-        totalSpent: Number(debtor.grand_total),
-        totalPaid: Number(debtor.total_paid),
-        balance: Number(debtor.current_balance),
-        status: debtor.status,
-      })).sort((a, b) => b.totalSpent - a.totalSpent).slice(0, 10);
-      
-      setCustomerLoyalty(loyaltyData);
+      .eq("user_id", userId)
+      .order("lifetime_purchases", { ascending: false })
+      .limit(10);
+
+    if (customers) {
+      setCustomerLoyalty(
+        customers.map((customer) => ({
+          id: customer.id,
+          name: customer.name,
+          phone: customer.phone,
+          totalSpent: Number(customer.lifetime_purchases),
+          totalPaid: Number(customer.total_paid),
+          balance: Number(customer.outstanding_balance),
+          status: Number(customer.outstanding_balance) > 0 ? "pending" : "paid",
+        }))
+      );
     }
 
     // Calculate monthly comparison
     const thisMonthStats = {
-      revenue: thisMonthSales?.reduce((sum, s) => sum + Number(s.revenue), 0) || 0,
-      profit: thisMonthSales?.reduce((sum, s) => sum + Number(s.profit_loss), 0) || 0,
-      sales: thisMonthSales?.length || 0,
+      revenue: thisMonthLines.reduce((sum, s) => sum + Number(s.revenue), 0),
+      profit: thisMonthLines.reduce((sum, s) => sum + Number(s.profit_loss), 0),
+      sales: thisMonthLines.length,
       expenses: thisMonthExpenses?.reduce((sum, e) => sum + Number(e.amount), 0) || 0,
     };
 
     const lastMonthStats = {
-      revenue: lastMonthSales?.reduce((sum, s) => sum + Number(s.revenue), 0) || 0,
-      profit: lastMonthSales?.reduce((sum, s) => sum + Number(s.profit_loss), 0) || 0,
-      sales: lastMonthSales?.length || 0,
+      revenue: lastMonthLines.reduce((sum, s) => sum + Number(s.revenue), 0),
+      profit: lastMonthLines.reduce((sum, s) => sum + Number(s.profit_loss), 0),
+      sales: lastMonthLines.length,
       expenses: lastMonthExpenses?.reduce((sum, e) => sum + Number(e.amount), 0) || 0,
     };
 
@@ -170,9 +246,9 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
       count: recentExpenses?.length || 0,
     });
 
-    if (sales) {
+    if (recentLines.length > 0) {
       // Group sales by date
-      const salesByDate = sales.reduce((acc: any, sale) => {
+      const salesByDate = recentLines.reduce((acc: any, sale) => {
         const date = sale.sale_date;
         if (!acc[date]) {
           acc[date] = { date, revenue: 0, profit: 0, sales: 0 };
@@ -191,7 +267,7 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
       );
 
       // Group by product
-      const productMap = sales.reduce((acc: any, sale) => {
+      const productMap = recentLines.reduce((acc: any, sale) => {
         if (!acc[sale.product_name]) {
           acc[sale.product_name] = { name: sale.product_name, value: 0, quantity: 0 };
         }
@@ -209,7 +285,8 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
 
     if (debtors) {
       const debtStats = {
-        pending: debtors.filter((d) => d.status === "pending").length,
+        pending: debtors.filter((d) => debtStatus(d) === "pending").length,
+        overdue: debtors.filter((d) => debtStatus(d) === "overdue").length,
         paid: debtors.filter((d) => d.status === "paid").length,
         totalOutstanding: debtors.reduce((sum, d) => sum + Number(d.current_balance), 0),
         totalCollected: debtors.reduce((sum, d) => sum + Number(d.total_paid), 0),
@@ -218,6 +295,7 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
       setDebtData([
         { name: "Pending", value: debtStats.pending },
         { name: "Paid", value: debtStats.paid },
+        { name: "Overdue", value: debtStats.overdue },
       ]);
 
       setDebtSummary({
@@ -271,22 +349,22 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
             <div class="grid">
               <div class="card">
                 <h3>This Month Revenue</h3>
-                <p>₦${monthlyComparison.thisMonth.revenue.toFixed(2)}</p>
+                <p>${formatAmount(monthlyComparison.thisMonth.revenue)}</p>
                 <div class="comparison ${getChangeClass(monthlyComparison.thisMonth.revenue, monthlyComparison.lastMonth.revenue)}">
                   ${getChangeText(monthlyComparison.thisMonth.revenue, monthlyComparison.lastMonth.revenue)} from last month
                 </div>
               </div>
               <div class="card">
                 <h3>Last Month Revenue</h3>
-                <p class="neutral">₦${monthlyComparison.lastMonth.revenue.toFixed(2)}</p>
+                <p class="neutral">${formatAmount(monthlyComparison.lastMonth.revenue)}</p>
               </div>
               <div class="card">
                 <h3>This Month Profit</h3>
-                <p class="${monthlyComparison.thisMonth.profit >= 0 ? 'positive' : 'negative'}">₦${monthlyComparison.thisMonth.profit.toFixed(2)}</p>
+                <p class="${monthlyComparison.thisMonth.profit >= 0 ? 'positive' : 'negative'}">${formatAmount(monthlyComparison.thisMonth.profit)}</p>
               </div>
               <div class="card">
                 <h3>Last Month Profit</h3>
-                <p class="${monthlyComparison.lastMonth.profit >= 0 ? 'positive' : 'negative'}">₦${monthlyComparison.lastMonth.profit.toFixed(2)}</p>
+                <p class="${monthlyComparison.lastMonth.profit >= 0 ? 'positive' : 'negative'}">${formatAmount(monthlyComparison.lastMonth.profit)}</p>
               </div>
             </div>
           </div>
@@ -296,19 +374,19 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
             <div class="grid">
               <div class="card">
                 <h3>Total Revenue</h3>
-                <p>₦${totalRevenue.toFixed(2)}</p>
+                <p>${formatAmount(totalRevenue)}</p>
               </div>
               <div class="card">
                 <h3>Total Profit</h3>
-                <p class="${totalProfit >= 0 ? 'positive' : 'negative'}">₦${totalProfit.toFixed(2)}</p>
+                <p class="${totalProfit >= 0 ? 'positive' : 'negative'}">${formatAmount(totalProfit)}</p>
               </div>
               <div class="card">
                 <h3>Total Sales</h3>
-                <p>${totalSales}</p>
+                <p>${basketCount} baskets (${totalSales} lines)</p>
               </div>
               <div class="card">
-                <h3>Average per Sale</h3>
-                <p>₦${totalSales > 0 ? (totalRevenue / totalSales).toFixed(2) : "0.00"}</p>
+                <h3>Average Basket</h3>
+                <p>${formatAmount(basketCount > 0 ? totalRevenue / basketCount : 0)}</p>
               </div>
             </div>
           </div>
@@ -320,7 +398,19 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
                 <tr><th>Product</th><th>Revenue</th><th>Quantity Sold</th></tr>
               </thead>
               <tbody>
-                ${productStats.map((p: any) => `<tr><td>${p.name}</td><td>₦${p.value.toFixed(2)}</td><td>${p.quantity}</td></tr>`).join("")}
+                ${productStats.map((p: any) => `<tr><td>${p.name}</td><td>${formatAmount(p.value)}</td><td>${p.quantity}</td></tr>`).join("")}
+              </tbody>
+            </table>
+          </div>
+
+          <div class="section">
+            <h2>Sales by Category</h2>
+            <table>
+              <thead>
+                <tr><th>Category</th><th>Revenue</th><th>Profit</th><th>Quantity Sold</th></tr>
+              </thead>
+              <tbody>
+                ${categoryStats.map((c) => `<tr><td>${c.name}</td><td>${formatAmount(c.revenue)}</td><td>${formatAmount(c.profit)}</td><td>${c.quantity}</td></tr>`).join("")}
               </tbody>
             </table>
           </div>
@@ -330,16 +420,20 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
             <div class="grid">
               <div class="card">
                 <h3>Outstanding Balance</h3>
-                <p class="negative">₦${debtSummary.outstanding.toFixed(2)}</p>
+                <p class="negative">${formatAmount(debtSummary.outstanding)}</p>
               </div>
               <div class="card">
                 <h3>Total Collected</h3>
-                <p class="positive">₦${debtSummary.collected.toFixed(2)}</p>
+                <p class="positive">${formatAmount(debtSummary.collected)}</p>
               </div>
               <div class="card">
                 <h3>Pending Debtors</h3>
                 <p>${debtData.find((d) => d.name === "Pending")?.value || 0}</p>
               </div>
+              <div class="card">
+                <h3>Overdue Debtors</h3>
+                <p class="negative">${debtData.find((d) => d.name === "Overdue")?.value || 0}</p>
+              </div>
               <div class="card">
                 <h3>Fully Paid</h3>
                 <p>${debtData.find((d) => d.name === "Paid")?.value || 0}</p>
@@ -446,11 +540,11 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
             <div className="flex items-end gap-3">
               <div>
                 <p className="text-xs text-muted-foreground">This Month</p>
-                <p className="text-xl font-bold text-primary">₦{monthlyComparison.thisMonth.revenue.toFixed(2)}</p>
+                <p className="text-xl font-bold text-primary">{formatAmount(monthlyComparison.thisMonth.revenue)}</p>
               </div>
               <div>
                 <p className="text-xs text-muted-foreground">Last Month</p>
-                <p className="text-lg text-muted-foreground">₦{monthlyComparison.lastMonth.revenue.toFixed(2)}</p>
+                <p className="text-lg text-muted-foreground">{formatAmount(monthlyComparison.lastMonth.revenue)}</p>
               </div>
             </div>
             <ComparisonIndicator current={monthlyComparison.thisMonth.revenue} previous={monthlyComparison.lastMonth.revenue} />
@@ -461,12 +555,12 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
               <div>
                 <p className="text-xs text-muted-foreground">This Month</p>
                 <p className={`text-xl font-bold ${monthlyComparison.thisMonth.profit >= 0 ? "text-success" : "text-destructive"}`}>
-                  ₦{monthlyComparison.thisMonth.profit.toFixed(2)}
+                  {formatAmount(monthlyComparison.thisMonth.profit)}
                 </p>
               </div>
               <div>
                 <p className="text-xs text-muted-foreground">Last Month</p>
-                <p className="text-lg text-muted-foreground">₦{monthlyComparison.lastMonth.profit.toFixed(2)}</p>
+                <p className="text-lg text-muted-foreground">{formatAmount(monthlyComparison.lastMonth.profit)}</p>
               </div>
             </div>
             <ComparisonIndicator current={monthlyComparison.thisMonth.profit} previous={monthlyComparison.lastMonth.profit} />
@@ -476,11 +570,11 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
             <div className="flex items-end gap-3">
               <div>
                 <p className="text-xs text-muted-foreground">This Month</p>
-                <p className="text-xl font-bold text-destructive">₦{monthlyComparison.thisMonth.expenses.toFixed(2)}</p>
+                <p className="text-xl font-bold text-destructive">{formatAmount(monthlyComparison.thisMonth.expenses)}</p>
               </div>
               <div>
                 <p className="text-xs text-muted-foreground">Last Month</p>
-                <p className="text-lg text-muted-foreground">₦{monthlyComparison.lastMonth.expenses.toFixed(2)}</p>
+                <p className="text-lg text-muted-foreground">{formatAmount(monthlyComparison.lastMonth.expenses)}</p>
               </div>
             </div>
             <ComparisonIndicator current={monthlyComparison.lastMonth.expenses} previous={monthlyComparison.thisMonth.expenses} />
@@ -491,13 +585,13 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
               <div>
                 <p className="text-xs text-muted-foreground">This Month</p>
                 <p className={`text-xl font-bold ${(monthlyComparison.thisMonth.profit - monthlyComparison.thisMonth.expenses) >= 0 ? "text-success" : "text-destructive"}`}>
-                  ₦{(monthlyComparison.thisMonth.profit - monthlyComparison.thisMonth.expenses).toFixed(2)}
+                  {formatAmount(monthlyComparison.thisMonth.profit - monthlyComparison.thisMonth.expenses)}
                 </p>
               </div>
               <div>
                 <p className="text-xs text-muted-foreground">Last Month</p>
                 <p className="text-lg text-muted-foreground">
-                  ₦{(monthlyComparison.lastMonth.profit - monthlyComparison.lastMonth.expenses).toFixed(2)}
+                  {formatAmount(monthlyComparison.lastMonth.profit - monthlyComparison.lastMonth.expenses)}
                 </p>
               </div>
             </div>
@@ -513,27 +607,40 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
       <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Revenue (30d)</h3>
-          <p className="text-2xl font-bold text-primary">₦{totalRevenue.toFixed(2)}</p>
+          <p className="text-2xl font-bold text-primary">{formatAmount(totalRevenue)}</p>
+          {creditSalesSummary.revenue > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              incl. {formatAmount(creditSalesSummary.revenue)} on credit
+            </p>
+          )}
         </Card>
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Gross Profit (30d)</h3>
           <p className={`text-2xl font-bold ${totalProfit >= 0 ? "text-success" : "text-destructive"}`}>
-            ₦{totalProfit.toFixed(2)}
+            {formatAmount(totalProfit)}
           </p>
+          {creditSalesSummary.revenue > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              incl. {formatAmount(creditSalesSummary.profit)} on credit
+            </p>
+          )}
         </Card>
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Expenses (30d)</h3>
-          <p className="text-2xl font-bold text-destructive">₦{expenseSummary.total.toFixed(2)}</p>
+          <p className="text-2xl font-bold text-destructive">{formatAmount(expenseSummary.total)}</p>
         </Card>
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Net Profit (30d)</h3>
           <p className={`text-2xl font-bold ${(totalProfit - expenseSummary.total) >= 0 ? "text-success" : "text-destructive"}`}>
-            ₦{(totalProfit - expenseSummary.total).toFixed(2)}
+            {formatAmount(totalProfit - expenseSummary.total)}
           </p>
         </Card>
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Sales Count (30d)</h3>
-          <p className="text-2xl font-bold text-info">{totalSales}</p>
+          <p className="text-2xl font-bold text-info">{basketCount}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {totalSales} item lines · avg {formatAmount(basketCount > 0 ? totalRevenue / basketCount : 0)}
+          </p>
         </Card>
       </div>
 
@@ -617,7 +724,7 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
                     border: "1px solid hsl(var(--border))",
                     borderRadius: "8px",
                   }}
-                  formatter={(value: number) => [`₦${value.toFixed(2)}`, "Revenue"]}
+                  formatter={(value: number) => [formatAmount(value), "Revenue"]}
                 />
                 <Bar dataKey="value" fill="hsl(var(--info))" radius={[0, 4, 4, 0]} />
               </BarChart>
@@ -662,15 +769,65 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
         </Card>
       </div>
 
+      {/* Category Breakdown */}
+      <Card className="p-5">
+        <h3 className="text-lg font-semibold mb-4">Sales by Category (Last 30 Days)</h3>
+        {categoryStats.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="p-3 text-left">Category</th>
+                  <th className="p-3 text-left">Revenue</th>
+                  <th className="p-3 text-left">Profit</th>
+                  <th className="p-3 text-left">Margin</th>
+                  <th className="p-3 text-left">Quantity Sold</th>
+                  <th className="p-3 text-left">Share of Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categoryStats.map((category) => {
+                  const totalCategoryRevenue = categoryStats.reduce((sum, c) => sum + c.revenue, 0);
+                  const share = totalCategoryRevenue > 0 ? (category.revenue / totalCategoryRevenue) * 100 : 0;
+                  return (
+                    <tr key={category.name} className="border-b hover:bg-muted/50">
+                      <td className="p-3 font-medium">{category.name}</td>
+                      <td className="p-3">{formatAmount(category.revenue)}</td>
+                      <td className={`p-3 ${category.profit >= 0 ? "text-success" : "text-destructive"}`}>
+                        {formatAmount(category.profit)}
+                      </td>
+                      <td className="p-3">
+                        {category.revenue > 0 ? ((category.profit / category.revenue) * 100).toFixed(1) : "0.0"}%
+                      </td>
+                      <td className="p-3">{category.quantity}</td>
+                      <td className="p-3">
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 w-24 bg-muted rounded-full overflow-hidden">
+                            <div className="h-full bg-primary" style={{ width: `${share}%` }} />
+                          </div>
+                          <span className="text-sm text-muted-foreground">{share.toFixed(1)}%</span>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-8">No category data available</p>
+        )}
+      </Card>
+
       {/* Debt Summary */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Outstanding Debt</h3>
-          <p className="text-2xl font-bold text-destructive">₦{debtSummary.outstanding.toFixed(2)}</p>
+          <p className="text-2xl font-bold text-destructive">{formatAmount(debtSummary.outstanding)}</p>
         </Card>
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Total Collected</h3>
-          <p className="text-2xl font-bold text-success">₦{debtSummary.collected.toFixed(2)}</p>
+          <p className="text-2xl font-bold text-success">{formatAmount(debtSummary.collected)}</p>
         </Card>
       </div>
 
@@ -694,14 +851,18 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
                 </tr>
               </thead>
               <tbody>
-                {customerLoyalty.map((customer, index) => (
-                  <tr key={index} className="border-b hover:bg-muted/50">
+                {customerLoyalty.map((customer) => (
+                  <tr
+                    key={customer.id}
+                    className="border-b hover:bg-muted/50 cursor-pointer"
+                    onClick={() => setProfileCustomerId(customer.id)}
+                  >
                     <td className="p-3 font-medium">{customer.name}</td>
                     <td className="p-3">{customer.phone}</td>
-                    <td className="p-3 text-primary font-semibold">₦{customer.totalSpent.toFixed(2)}</td>
-                    <td className="p-3 text-success">₦{customer.totalPaid.toFixed(2)}</td>
+                    <td className="p-3 text-primary font-semibold">{formatAmount(customer.totalSpent)}</td>
+                    <td className="p-3 text-success">{formatAmount(customer.totalPaid)}</td>
                     <td className={`p-3 ${customer.balance > 0 ? "text-destructive" : "text-success"}`}>
-                      ₦{customer.balance.toFixed(2)}
+                      {formatAmount(customer.balance)}
                     </td>
                     <td className="p-3">
                       <span className={`px-2 py-1 rounded-full text-xs ${
@@ -719,6 +880,12 @@ const AnalyticsDashboard = ({ userId }: AnalyticsDashboardProps) => {
           <p className="text-center text-muted-foreground py-8">No customer data available</p>
         )}
       </Card>
+
+      <CustomerProfile
+        isOpen={!!profileCustomerId}
+        onClose={() => setProfileCustomerId(null)}
+        customerId={profileCustomerId}
+      />
     </div>
   );
 };
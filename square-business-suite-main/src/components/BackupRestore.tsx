@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card } from "./ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useTheme } from "next-themes";
+import { format } from "date-fns";
+import { DatabaseBackup, RotateCcw } from "lucide-react";
+import { Json } from "@/integrations/supabase/types";
+import { duplicateProductField } from "@/lib/products";
+import {
+  Backup,
+  BACKUP_APP,
+  BACKUP_TABLE_LABELS,
+  BACKUP_TABLES,
+  BACKUP_VERSION,
+  BackupRow,
+  BackupTable,
+  validateBackup,
+} from "@/lib/backup";
+
+interface BackupRestoreProps {
+  onRestored: () => void;
+}
+
+const PAGE_SIZE = 1000;
+
+const BackupRestore = ({ onRestored }: BackupRestoreProps) => {
+  const [backingUp, setBackingUp] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [fileKey, setFileKey] = useState(0);
+  const { toast } = useToast();
+  const { setCurrency } = useCurrency();
+  const { setTheme } = useTheme();
+
+  // Row level security limits every table to the signed-in user's rows; pages keep
+  // requests under the API's row limit
+  const fetchTable = async (table: BackupTable) => {
+    const rows: BackupRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("*")
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(`${BACKUP_TABLE_LABELS[table]}: ${error.message}`);
+      rows.push(...(data as BackupRow[]));
+      if (data.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  const handleBackup = async () => {
+    setBackingUp(true);
+    try {
+      const tables = {} as Record<BackupTable, BackupRow[]>;
+      for (const table of BACKUP_TABLES) {
+        tables[table] = await fetchTable(table);
+      }
+      const archive: Backup = { app: BACKUP_APP, version: BACKUP_VERSION, exported_at: new Date().toISOString(), tables };
+
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", `backup_${format(new Date(), "yyyy-MM-dd_HHmm")}.json`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      const rowCount = BACKUP_TABLES.reduce((sum, table) => sum + tables[table].length, 0);
+      toast({ title: "Backup downloaded", description: `${rowCount} records saved` });
+    } catch (error) {
+      toast({
+        title: "Error creating backup",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setBackingUp(false);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setBackup(null);
+    setFileErrors([]);
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setFileErrors(["The file is not valid JSON"]);
+      return;
+    }
+
+    const result = validateBackup(data);
+    setBackup(result.backup);
+    setFileErrors(result.errors);
+  };
+
+  const clearFile = () => {
+    setBackup(null);
+    setFileErrors([]);
+    setFileKey(fileKey + 1);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (
+      !confirm(
+        "Restore this backup into your account? Its records are added to what you already have and settings are replaced."
+      )
+    ) {
+      return;
+    }
+
+    setRestoring(true);
+    const { data, error } = await supabase.rpc("restore_backup", { p_backup: backup as unknown as Json });
+    setRestoring(false);
+
+    if (error) {
+      const description = error.code === "23505" ? duplicateProductField(error.message).message : error.message;
+      toast({ title: "Restore failed, nothing was changed", description, variant: "destructive" });
+      return;
+    }
+
+    const counts = data as Record<string, number>;
+    toast({
+      title: "Backup restored",
+      description: `${counts.stock} stock items, ${counts.sales} sales, ${counts.debtors} debtors and ${counts.expenses} expenses`,
+    });
+
+    const settings = backup.tables.user_settings[0];
+    if (settings?.currency) setCurrency(String(settings.currency));
+    if (settings?.theme) setTheme(String(settings.theme));
+
+    clearFile();
+    onRestored();
+  };
+
+  return (
+    <Card className="p-5">
+      <h2 className="text-xl font-semibold mb-1">💾 Backup & Restore</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Download a complete copy of your stock, sales, debtors, payments, expenses and settings, or restore one into
+        this account.
+      </p>
+
+      <div className="space-y-6">
+        <div>
+          <Button onClick={handleBackup} disabled={backingUp}>
+            <DatabaseBackup className="w-4 h-4 mr-2" />
+            {backingUp ? "Preparing backup..." : "Download Backup"}
+          </Button>
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <div>
+            <Label>Restore from Backup File</Label>
+            <Input
+              key={fileKey}
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="mt-2"
+            />
+          </div>
+
+          {fileErrors.length > 0 && (
+            <div className="bg-destructive/10 p-3 rounded-lg text-sm text-destructive space-y-1">
+              <p className="font-semibold">This backup cannot be restored:</p>
+              {fileErrors.map((error, index) => (
+                <p key={index}>{error}</p>
+              ))}
+            </div>
+          )}
+
+          {backup && (
+            <div className="bg-muted p-4 rounded-lg space-y-3">
+              <p className="text-sm">
+                Backup taken <span className="font-semibold">{format(new Date(backup.exported_at), "MMM dd, yyyy HH:mm")}</span>
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+                {BACKUP_TABLES.filter((table) => table !== "user_settings").map((table) => (
+                  <div key={table} className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">{BACKUP_TABLE_LABELS[table]}</span>
+                    <span className="font-semibold">{backup.tables[table].length}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={clearFile} disabled={restoring}>
+                  Cancel
+                </Button>
+                <Button onClick={handleRestore} disabled={restoring}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  {restoring ? "Restoring..." : "Restore Backup"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default BackupRestore;
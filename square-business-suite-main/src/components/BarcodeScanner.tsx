@@ -0,0 +1,139 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Camera, Keyboard } from "lucide-react";
+import type { IScannerControls } from "@zxing/browser";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+interface BarcodeScannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScan: (code: string) => void;
+  title?: string;
+}
+
+type ScanMode = "camera" | "manual";
+
+const BarcodeScanner = ({ isOpen, onClose, onScan, title = "Scan Barcode" }: BarcodeScannerProps) => {
+  const [mode, setMode] = useState<ScanMode>("camera");
+  const [manualCode, setManualCode] = useState("");
+  const [cameraError, setCameraError] = useState("");
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (!isOpen || mode !== "camera") return;
+
+    let controls: IScannerControls | null = null;
+    let cancelled = false;
+
+    const startCamera = async () => {
+      setCameraError("");
+      try {
+        // Loaded on demand so the decoder only ships to users who scan
+        const [{ BrowserMultiFormatReader }, { BarcodeFormat, DecodeHintType }] = await Promise.all([
+          import("@zxing/browser"),
+          import("@zxing/library"),
+        ]);
+        const hints = new Map();
+        hints.set(DecodeHintType.POSSIBLE_FORMATS, [
+          BarcodeFormat.EAN_13,
+          BarcodeFormat.EAN_8,
+          BarcodeFormat.UPC_A,
+          BarcodeFormat.UPC_E,
+          BarcodeFormat.CODE_128,
+        ]);
+        const reader = new BrowserMultiFormatReader(hints);
+        if (cancelled || !videoRef.current) return;
+
+        controls = await reader.decodeFromConstraints(
+          { video: { facingMode: "environment" } },
+          videoRef.current,
+          (result, _error, scanControls) => {
+            if (result) {
+              scanControls.stop();
+              onScan(result.getText());
+            }
+          }
+        );
+        if (cancelled) controls.stop();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        setCameraError(`Camera unavailable (${message}). Enter the code manually instead.`);
+        setMode("manual");
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      controls?.stop();
+    };
+  }, [isOpen, mode]);
+
+  useEffect(() => {
+    if (isOpen) setManualCode("");
+  }, [isOpen]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = manualCode.trim();
+    if (!code) return;
+    setManualCode("");
+    onScan(code);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant={mode === "camera" ? "default" : "outline"} onClick={() => setMode("camera")}>
+            <Camera size={16} className="mr-2" /> Camera
+          </Button>
+          <Button variant={mode === "manual" ? "default" : "outline"} onClick={() => setMode("manual")}>
+            <Keyboard size={16} className="mr-2" /> Manual / USB
+          </Button>
+        </div>
+
+        {cameraError && <p className="text-destructive text-sm">{cameraError}</p>}
+
+        {mode === "camera" ? (
+          <div className="space-y-2">
+            <video ref={videoRef} className="w-full rounded-lg bg-black aspect-video object-cover" muted playsInline />
+            <p className="text-xs text-muted-foreground text-center">
+              Point the camera at an EAN, UPC or Code 128 barcode
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleManualSubmit} className="space-y-2">
+            <Label>Barcode or SKU</Label>
+            <Input
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="Type the code or scan with a USB scanner"
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              USB and Bluetooth scanners type the code here and press Enter for you.
+            </p>
+            <Button type="submit" className="w-full" disabled={!manualCode.trim()}>
+              Look Up
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card } from "./ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { addDays, format, startOfMonth } from "date-fns";
+import { Download } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { exportToCsv } from "@/lib/exportCsv";
+import { PAYMENT_METHODS, paymentMethodLabel } from "@/lib/paymentMethods";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+const PAGE_SIZE = 1000;
+
+interface CollectionsReportProps {
+  userId: string;
+}
+
+type Collection = Tables<"payments"> & {
+  debtors: Pick<Tables<"debtors">, "customer_name" | "customer_phone" | "user_id">;
+};
+
+const CollectionsReport = ({ userId }: CollectionsReportProps) => {
+  const [payments, setPayments] = useState<Collection[]>([]);
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [methodFilter, setMethodFilter] = useState("all");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { currency, formatAmount } = useCurrency();
+
+  const fetchCollections = async () => {
+    if (!startDate || !endDate) {
+      toast({ title: "Please select valid date range", variant: "destructive" });
+      return;
+    }
+
+    // payment_date is a timestamp, so the range runs from local midnight on the start
+    // date up to local midnight after the end date
+    const from = new Date(`${startDate}T00:00:00`).toISOString();
+    const to = addDays(new Date(`${endDate}T00:00:00`), 1).toISOString();
+
+    setLoading(true);
+    const rows: Collection[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabase
+        .from("payments")
+        .select("*, debtors!inner(customer_name, customer_phone, user_id)")
+        .eq("debtors.user_id", userId)
+        .is("voided_at", null)
+        .gte("payment_date", from)
+        .lt("payment_date", to);
+
+      if (methodFilter !== "all") {
+        query = query.eq("payment_method", methodFilter);
+      }
+
+      const { data, error } = await query
+        .order("payment_date", { ascending: false })
+        .order("id")
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        setLoading(false);
+        toast({ title: "Error fetching collections", description: error.message, variant: "destructive" });
+        return;
+      }
+      rows.push(...data);
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    setLoading(false);
+    setPayments(rows);
+  };
+
+  useEffect(() => {
+    fetchCollections();
+  }, [userId, startDate, endDate, methodFilter]);
+
+  const exportCollections = () => {
+    if (payments.length === 0) {
+      toast({ title: "No collections to export", variant: "destructive" });
+      return;
+    }
+    const exportData = payments.map((payment) => ({
+      Date: format(new Date(payment.payment_date), "yyyy-MM-dd HH:mm"),
+      Customer: payment.debtors.customer_name,
+      Phone: payment.debtors.customer_phone,
+      "Payment Method": paymentMethodLabel(payment.payment_method),
+      Reference: payment.reference || "",
+      Note: payment.note || "",
+      [`Amount (${currency})`]: payment.amount,
+    }));
+    const method = methodFilter === "all" ? "" : `_${methodFilter}`;
+    exportToCsv(`collections${method}_${startDate}_to_${endDate}`, exportData);
+    toast({ title: "Collections exported successfully!" });
+  };
+
+  const totalCollected = payments.reduce((sum, p) => sum + Number(p.amount), 0);
+  const totalsByMethod = PAYMENT_METHODS.map((method) => ({
+    ...method,
+    total: payments
+      .filter((p) => p.payment_method === method.value)
+      .reduce((sum, p) => sum + Number(p.amount), 0),
+  })).filter((method) => method.total > 0);
+
+  return (
+    <Card className="p-5">
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
+        <h2 className="text-xl font-semibold">💵 Collections</h2>
+        <Button variant="secondary" size="sm" onClick={exportCollections}>
+          <Download size={16} className="mr-2" /> Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <Label>From</Label>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-2" />
+        </div>
+        <div>
+          <Label>To</Label>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-2" />
+        </div>
+        <div>
+          <Label>Payment Method</Label>
+          <Select value={methodFilter} onValueChange={setMethodFilter}>
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Methods</SelectItem>
+              {PAYMENT_METHODS.map((method) => (
+                <SelectItem key={method.value} value={method.value}>
+                  {method.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+        <div className="bg-gradient-primary p-4 rounded-lg text-center text-primary-foreground">
+          <p className="text-sm">Total Collected</p>
+          <p className="text-xl font-bold">{formatAmount(totalCollected)}</p>
+        </div>
+        {totalsByMethod.map((method) => (
+          <div key={method.value} className="bg-muted p-4 rounded-lg text-center">
+            <p className="text-sm text-muted-foreground">{method.label}</p>
+            <p className="text-xl font-bold">{formatAmount(method.total)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-80 overflow-y-auto">
+        <table className="w-full">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="p-3 text-left">Date</th>
+              <th className="p-3 text-left">Customer</th>
+              <th className="p-3 text-left">Method</th>
+              <th className="p-3 text-left">Reference</th>
+              <th className="p-3 text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="p-6 text-center text-muted-foreground">
+                  Loading collections...
+                </td>
+              </tr>
+            ) : payments.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="p-6 text-center text-muted-foreground">
+                  No payments collected for this period
+                </td>
+              </tr>
+            ) : (
+              payments.map((payment) => (
+                <tr key={payment.id} className="border-b hover:bg-muted/50">
+                  <td className="p-3 whitespace-nowrap">{format(new Date(payment.payment_date), "MMM dd, yyyy HH:mm")}</td>
+                  <td className="p-3">{payment.debtors.customer_name}</td>
+                  <td className="p-3">{paymentMethodLabel(payment.payment_method)}</td>
+                  <td className="p-3 text-muted-foreground">{payment.reference || "-"}</td>
+                  <td className="p-3 text-right font-semibold text-success">{formatAmount(Number(payment.amount))}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+export default CollectionsReport;
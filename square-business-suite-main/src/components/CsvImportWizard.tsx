@@ -0,0 +1,483 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, Download, Upload, XCircle } from "lucide-react";
+import { exportToCsv } from "@/lib/exportCsv";
+import { duplicateProductField } from "@/lib/products";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  guessColumnMapping,
+  IMPORT_DATASETS,
+  ImportDataset,
+  ImportRow,
+  parseCsv,
+  validateImportRow,
+} from "@/lib/csvImport";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+interface CsvImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  dataset: ImportDataset;
+  onImported: () => void;
+}
+
+type WizardStep = "upload" | "map" | "preview";
+
+const NOT_MAPPED = "none";
+const PREVIEW_LIMIT = 200;
+const PAGE_SIZE = 1000;
+
+const normaliseName = (value: string) => value.trim().toLowerCase();
+
+const CsvImportWizard = ({ isOpen, onClose, userId, dataset, onImported }: CsvImportWizardProps) => {
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const config = IMPORT_DATASETS[dataset];
+
+  // Every saved product is checked against the file; pages keep requests under the API's row limit
+  const fetchStock = async () => {
+    const products: Pick<Tables<"stock">, "id" | "product_name" | "sku" | "barcode">[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("stock")
+        .select("id, product_name, sku, barcode")
+        .eq("user_id", userId)
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      products.push(...data);
+      if (data.length < PAGE_SIZE) return products;
+    }
+  };
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  const missingRequired = config.fields.filter((field) => field.required && (mapping[field.key] ?? -1) < 0);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setRows([]);
+    setErrorsOnly(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const downloadTemplate = () => {
+    const example = Object.fromEntries(config.fields.map((field) => [field.label, field.example]));
+    exportToCsv(`${dataset}_import_template`, [example]);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      toast({ title: "No rows to import", description: "The file needs a header row and at least one data row", variant: "destructive" });
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(parsed[0].map((header) => header.trim()));
+    setDataRows(parsed.slice(1));
+    setMapping(guessColumnMapping(parsed[0], config.fields));
+    setStep("map");
+  };
+
+  // Row-level checks use the page schemas; checks across rows and against saved data follow
+  const buildPreview = async () => {
+    const built: ImportRow[] = dataRows.map((cells, index) => {
+      const raw = Object.fromEntries(
+        config.fields.map((field) => {
+          const column = mapping[field.key] ?? -1;
+          return [field.key, column >= 0 ? cells[column] ?? "" : ""];
+        })
+      );
+      return { line: index + 2, ...validateImportRow(dataset, raw) };
+    });
+
+    if (dataset === "stock") {
+      setLoading(true);
+      let existing: Awaited<ReturnType<typeof fetchStock>>;
+      try {
+        existing = await fetchStock();
+      } catch (error) {
+        toast({
+          title: "Error checking existing stock",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+        return;
+      } finally {
+        setLoading(false);
+      }
+
+      const taken = {
+        product_name: new Set(existing.map((item) => normaliseName(item.product_name))),
+        sku: new Set(existing.filter((item) => item.sku).map((item) => normaliseName(item.sku!))),
+        barcode: new Set(existing.filter((item) => item.barcode).map((item) => normaliseName(item.barcode!))),
+      };
+      const labels = { product_name: "Product name", sku: "SKU", barcode: "Barcode" };
+
+      built.forEach((row) => {
+        (Object.keys(taken) as (keyof typeof taken)[]).forEach((field) => {
+          const value = normaliseName(row.values[field]);
+          if (!value) return;
+          if (taken[field].has(value)) {
+            row.errors.push(`${labels[field]} "${row.values[field]}" already exists or is repeated in the file`);
+          } else {
+            taken[field].add(value);
+          }
+        });
+      });
+    }
+
+    if (dataset === "debtors") {
+      const groups = new Map<string, ImportRow[]>();
+      built
+        .filter((row) => row.errors.length === 0)
+        .forEach((row) => {
+          const key = row.values.customer_phone.replace(/\D/g, "");
+          groups.set(key, [...(groups.get(key) || []), row]);
+        });
+      groups.forEach((group) => {
+        const total = group.reduce((sum, row) => sum + parseInt(row.values.quantity) * parseFloat(row.values.selling_price), 0);
+        const paid = group.reduce((sum, row) => sum + (parseFloat(row.values.amount_paid) || 0), 0);
+        if (paid > total) {
+          group.forEach((row) => row.errors.push("Amount paid for this customer exceeds what they owe"));
+        }
+      });
+    }
+
+    setRows(built);
+    setStep("preview");
+  };
+
+  const downloadErrors = () => {
+    exportToCsv(
+      `${dataset}_import_errors`,
+      invalidRows.map((row) => ({
+        Line: row.line,
+        ...Object.fromEntries(config.fields.map((field) => [field.label, row.values[field.key]])),
+        Errors: row.errors.join("; "),
+      }))
+    );
+  };
+
+  const commitStock = () =>
+    supabase.from("stock").insert(
+      validRows.map(({ values }) => ({
+        user_id: userId,
+        product_name: values.product_name,
+        quantity: parseInt(values.quantity),
+        cost_price: parseFloat(values.cost_price),
+        selling_price: values.selling_price ? parseFloat(values.selling_price) : null,
+        sku: values.sku || null,
+        barcode: values.barcode || null,
+        category: values.category || null,
+        unit: values.unit,
+        reorder_level: values.reorder_level ? parseInt(values.reorder_level) : null,
+        reorder_quantity: values.reorder_quantity ? parseInt(values.reorder_quantity) : null,
+      }))
+    );
+
+  // Past sales are history: they link to a matching product for reporting but leave stock untouched
+  const commitSales = async () => {
+    const stockItems = await fetchStock();
+    const stockIds = new Map(stockItems.map((item) => [normaliseName(item.product_name), item.id]));
+
+    return supabase.from("sales").insert(
+      validRows.map(({ values }) => {
+        const quantity = parseInt(values.quantity);
+        const costPrice = parseFloat(values.cost_price);
+        const sellingPrice = parseFloat(values.selling_price);
+        const discount = parseFloat(values.discount) || 0;
+        const revenue = quantity * sellingPrice - discount;
+        return {
+          user_id: userId,
+          stock_id: stockIds.get(normaliseName(values.product_name)) ?? null,
+          sale_date: values.sale_date,
+          sale_time: values.sale_time,
+          product_name: values.product_name,
+          quantity,
+          cost_price: costPrice,
+          selling_price: sellingPrice,
+          discount,
+          total_cost: quantity * costPrice,
+          revenue,
+          profit_loss: revenue - quantity * costPrice,
+        };
+      })
+    );
+  };
+
+  const commitDebtors = () => {
+    const debtors = new Map<
+      string,
+      {
+        customer_name: string;
+        customer_phone: string;
+        customer_email: string | null;
+        items: { item_date: string; due_date: string | null; item_name: string; quantity: number; selling_price: number }[];
+        initial_payment: number;
+      }
+    >();
+    validRows.forEach(({ values }) => {
+      const key = values.customer_phone.replace(/\D/g, "");
+      const debtor = debtors.get(key) || {
+        customer_name: values.customer_name,
+        customer_phone: values.customer_phone,
+        customer_email: values.customer_email || null,
+        items: [],
+        initial_payment: 0,
+      };
+      debtor.items.push({
+        item_date: values.item_date,
+        due_date: values.due_date || null,
+        item_name: values.item_name,
+        quantity: parseInt(values.quantity),
+        selling_price: parseFloat(values.selling_price),
+      });
+      debtor.initial_payment += parseFloat(values.amount_paid) || 0;
+      debtors.set(key, debtor);
+    });
+
+    return supabase.rpc("import_debtors", { p_debtors: [...debtors.values()] });
+  };
+
+  const commitExpenses = () =>
+    supabase.from("expenses").insert(
+      validRows.map(({ values }) => ({
+        user_id: userId,
+        expense_date: values.expense_date,
+        category: values.category,
+        description: values.description,
+        amount: parseFloat(values.amount),
+      }))
+    );
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+    if (
+      invalidRows.length > 0 &&
+      !confirm(`${invalidRows.length} row(s) have errors and will be skipped. Import the ${validRows.length} valid row(s)?`)
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    const commit = { stock: commitStock, sales: commitSales, debtors: commitDebtors, expenses: commitExpenses }[dataset];
+    // The sales import reads saved stock first, and that can fail before anything is written
+    const { error } = await Promise.resolve(commit()).catch((fetchError: unknown) => ({
+      error: { code: "", message: fetchError instanceof Error ? fetchError.message : String(fetchError) },
+    }));
+    setLoading(false);
+
+    if (error) {
+      const description = error.code === "23505" ? duplicateProductField(error.message).message : error.message;
+      toast({ title: "Import failed, nothing was saved", description, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: `Imported ${validRows.length} ${config.label.toLowerCase()} row(s)` });
+    onImported();
+    handleClose();
+  };
+
+  const previewFields = config.fields.filter((field) => (mapping[field.key] ?? -1) >= 0).slice(0, 5);
+  const visibleRows = (errorsOnly ? invalidRows : rows).slice(0, PREVIEW_LIMIT);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {config.label} from CSV</DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{config.hint}</p>
+            <p className="text-sm text-muted-foreground">
+              Dates can be written as YYYY-MM-DD or DD/MM/YYYY. Download the template to see the expected columns.
+            </p>
+            <Button variant="outline" onClick={downloadTemplate}>
+              <Download size={16} className="mr-2" /> Download Template
+            </Button>
+            <div>
+              <Label>CSV File</Label>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="mt-2"
+              />
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {dataRows.length} row(s). Choose which column holds each field.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {config.fields.map((field) => (
+                <div key={field.key}>
+                  <Label>
+                    {field.label}
+                    {field.required ? " *" : " (Optional)"}
+                  </Label>
+                  <Select
+                    value={(mapping[field.key] ?? -1) < 0 ? NOT_MAPPED : String(mapping[field.key])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field.key]: value === NOT_MAPPED ? -1 : parseInt(value) })
+                    }
+                  >
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-destructive text-sm">
+                Map the required fields: {missingRequired.map((field) => field.label).join(", ")}
+              </p>
+            )}
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={buildPreview} disabled={missingRequired.length > 0 || loading}>
+                Preview Import
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-muted p-4 rounded-lg text-center">
+                <p className="text-sm text-muted-foreground">Rows</p>
+                <p className="text-xl font-bold">{rows.length}</p>
+              </div>
+              <div className="bg-muted p-4 rounded-lg text-center">
+                <p className="text-sm text-muted-foreground">Ready to Import</p>
+                <p className="text-xl font-bold text-success">{validRows.length}</p>
+              </div>
+              <div className="bg-muted p-4 rounded-lg text-center">
+                <p className="text-sm text-muted-foreground">With Errors</p>
+                <p className="text-xl font-bold text-destructive">{invalidRows.length}</p>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center flex-wrap gap-2">
+              <div className="flex items-center gap-2">
+                <Switch id="errors-only" checked={errorsOnly} onCheckedChange={setErrorsOnly} />
+                <Label htmlFor="errors-only">Show rows with errors only</Label>
+              </div>
+              {invalidRows.length > 0 && (
+                <Button variant="secondary" size="sm" onClick={downloadErrors}>
+                  <Download size={16} className="mr-2" /> Download Errors
+                </Button>
+              )}
+            </div>
+
+            <div className="overflow-x-auto max-h-80 overflow-y-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    <th className="p-2 text-left">Line</th>
+                    {previewFields.map((field) => (
+                      <th key={field.key} className="p-2 text-left">
+                        {field.label}
+                      </th>
+                    ))}
+                    <th className="p-2 text-left">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr key={row.line} className={`border-b ${row.errors.length ? "bg-destructive/5" : ""}`}>
+                      <td className="p-2 text-muted-foreground">{row.line}</td>
+                      {previewFields.map((field) => (
+                        <td key={field.key} className="p-2">
+                          {row.values[field.key]}
+                        </td>
+                      ))}
+                      <td className="p-2">
+                        {row.errors.length === 0 ? (
+                          <CheckCircle2 className="w-4 h-4 text-success" />
+                        ) : (
+                          <span className="inline-flex items-start gap-1 text-destructive">
+                            <XCircle className="w-4 h-4 shrink-0" />
+                            {row.errors.join("; ")}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {(errorsOnly ? invalidRows : rows).length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_LIMIT} rows</p>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setStep("map")} disabled={loading}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0 || loading}>
+                <Upload size={16} className="mr-2" />
+                {loading ? "Importing..." : `Import ${validRows.length} Row(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImportWizard;
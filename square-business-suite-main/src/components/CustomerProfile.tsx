@@ -0,0 +1,166 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+interface CustomerProfileProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customerId: string | null;
+}
+
+const CustomerProfile = ({ isOpen, onClose, customerId }: CustomerProfileProps) => {
+  const [customer, setCustomer] = useState<Tables<"customer_summaries"> | null>(null);
+  const [debtAccounts, setDebtAccounts] = useState<Tables<"debtors">[]>([]);
+  const [purchases, setPurchases] = useState<Tables<"sales">[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { formatAmount } = useCurrency();
+
+  const fetchProfile = async () => {
+    if (!customerId) return;
+
+    setLoading(true);
+    const [summaryResult, debtorsResult, salesResult] = await Promise.all([
+      supabase.from("customer_summaries").select("*").eq("id", customerId).maybeSingle(),
+      supabase.from("debtors").select("*").eq("customer_id", customerId).order("created_at", { ascending: false }),
+      supabase
+        .from("sales")
+        .select("*")
+        .eq("customer_id", customerId)
+        .order("sale_date", { ascending: false })
+        .limit(50),
+    ]);
+
+    setLoading(false);
+    const error = summaryResult.error || debtorsResult.error || salesResult.error;
+    if (error) {
+      toast({ title: "Error fetching customer", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setCustomer(summaryResult.data);
+    setDebtAccounts(debtorsResult.data || []);
+    setPurchases(salesResult.data || []);
+  };
+
+  useEffect(() => {
+    if (isOpen && customerId) {
+      fetchProfile();
+    }
+  }, [isOpen, customerId]);
+
+  if (!customerId) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Customer Profile{customer ? ` - ${customer.name}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        {loading || !customer ? (
+          <p className="text-center text-muted-foreground py-4">Loading customer...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              <p>{customer.phone}</p>
+              {customer.email && <p>{customer.email}</p>}
+              <p>Customer since {format(new Date(customer.created_at), "MMM dd, yyyy")}</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 bg-muted p-4 rounded-lg">
+              <div className="text-center">
+                <p className="text-xs text-muted-foreground">Lifetime Purchases</p>
+                <p className="font-bold text-primary">{formatAmount(Number(customer.lifetime_purchases))}</p>
+              </div>
+              <div className="text-center">
+                <p className="text-xs text-muted-foreground">Total Paid on Credit</p>
+                <p className="font-bold text-success">{formatAmount(Number(customer.total_paid))}</p>
+              </div>
+              <div className="text-center">
+                <p className="text-xs text-muted-foreground">Outstanding</p>
+                <p className="font-bold text-warning">{formatAmount(Number(customer.outstanding_balance))}</p>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">Credit History ({debtAccounts.length})</h4>
+              {debtAccounts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No credit accounts</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        <th className="p-2 text-left text-sm">Opened</th>
+                        <th className="p-2 text-right text-sm">Total</th>
+                        <th className="p-2 text-right text-sm">Paid</th>
+                        <th className="p-2 text-right text-sm">Balance</th>
+                        <th className="p-2 text-left text-sm">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {debtAccounts.map((account) => (
+                        <tr key={account.id} className="border-b">
+                          <td className="p-2 text-sm">{format(new Date(account.created_at), "MMM dd, yyyy")}</td>
+                          <td className="p-2 text-right text-sm">{formatAmount(Number(account.grand_total))}</td>
+                          <td className="p-2 text-right text-sm text-success">{formatAmount(Number(account.total_paid))}</td>
+                          <td className="p-2 text-right text-sm text-warning">{formatAmount(Number(account.current_balance))}</td>
+                          <td className="p-2 text-sm">{account.status}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-semibold mb-2">Purchases ({customer.sales_count})</h4>
+              {purchases.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No cash purchases linked to this customer</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        <th className="p-2 text-left text-sm">Date</th>
+                        <th className="p-2 text-left text-sm">Product</th>
+                        <th className="p-2 text-right text-sm">Qty</th>
+                        <th className="p-2 text-right text-sm">Amount</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {purchases.map((sale) => (
+                        <tr key={sale.id} className="border-b">
+                          <td className="p-2 text-sm">{format(new Date(sale.sale_date), "MMM dd, yyyy")}</td>
+                          <td className="p-2 text-sm">{sale.product_name}</td>
+                          <td className="p-2 text-right text-sm">{sale.quantity}</td>
+                          <td className="p-2 text-right text-sm">{formatAmount(Number(sale.revenue))}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <Button onClick={onClose} className="w-full">Close</Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerProfile;
@@ -5,12 +5,24 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Card } from "./ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
 import { format } from "date-fns";
-import { Search, Trash2, CreditCard, History, Download, Filter, X, Mail, MessageCircle } from "lucide-react";
-import { z } from "zod";
+import { Search, Trash2, CreditCard, History, Filter, X, Mail, MessageCircle, PackagePlus, Upload, FileText, CalendarClock } from "lucide-react";
 import PaymentModal from "./PaymentModal";
 import PaymentHistory from "./PaymentHistory";
-import { exportToCsv } from "@/lib/exportCsv";
+import AddItemsModal from "./AddItemsModal";
+import CustomerProfile from "./CustomerProfile";
+import StatementModal from "./StatementModal";
+import StockPicker, { CUSTOM_ITEM, StockOption } from "./StockPicker";
+import { Tables } from "@/integrations/supabase/types";
+import { exportReport, ExportCellType, ExportFormat, ExportTable } from "@/lib/exportReport";
+import ExportMenu from "./ExportMenu";
+import CsvImportWizard from "./CsvImportWizard";
+import { customerSchema, debtItemSchema } from "@/lib/schemas";
+import { PAYMENT_METHODS, paymentMethodLabel } from "@/lib/paymentMethods";
+import { daysOverdue, debtStatus, NO_TERMS, PAYMENT_TERMS, paymentTermsLabel } from "@/lib/paymentTerms";
+import CollectionsReport from "./CollectionsReport";
+import AgingReport from "./AgingReport";
 import {
   Select,
   SelectContent,
@@ -25,21 +37,12 @@ import {
   DialogTitle,
 } from "./ui/dialog";
 
+const PAGE_SIZE = 1000;
+
 interface DebtPageProps {
   userId: string;
 }
 
-const customerSchema = z.object({
-  customer_name: z.string().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
-  customer_phone: z.string().min(10, "Phone number must be at least 10 digits").max(15, "Phone number too long"),
-});
-
-const itemSchema = z.object({
-  item_name: z.string().min(1, "Item name is required").max(100, "Item name too long"),
-  quantity: z.string().refine((val) => parseInt(val) >= 1, "Quantity must be at least 1"),
-  selling_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Price must be at least 0.01"),
-});
-
 const DebtPage = ({ userId }: DebtPageProps) => {
   const [debtors, setDebtors] = useState<any[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
@@ -51,6 +54,11 @@ const DebtPage = ({ userId }: DebtPageProps) => {
   const [selectedDebtor, setSelectedDebtor] = useState<any>(null);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+  const [isAddItemsModalOpen, setIsAddItemsModalOpen] = useState(false);
+  const [profileCustomerId, setProfileCustomerId] = useState<string | null>(null);
+  const [statementDebtor, setStatementDebtor] = useState<Tables<"debtors"> | null>(null);
+  const [termsDebtor, setTermsDebtor] = useState<Tables<"debtors"> | null>(null);
+  const [termsForm, setTermsForm] = useState({ payment_terms: NO_TERMS, due_date: "" });
   const [isReminderModalOpen, setIsReminderModalOpen] = useState(false);
   const [reminderEmail, setReminderEmail] = useState("");
   const [sendingReminder, setSendingReminder] = useState(false);
@@ -63,14 +71,23 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     items: [] as any[],
     grand_total: 0,
     payment_amount: "",
+    payment_method: "cash",
+    payment_reference: "",
+    payment_terms: NO_TERMS,
+    due_date: "",
   });
   const [currentItem, setCurrentItem] = useState({
     item_date: format(new Date(), "yyyy-MM-dd"),
+    due_date: "",
+    stock_id: "",
+    stock_quantity: 0,
     item_name: "",
     quantity: "",
     selling_price: "",
   });
+  const [importOpen, setImportOpen] = useState(false);
   const { toast } = useToast();
+  const { currency, formatAmount, symbol } = useCurrency();
 
   const handleOpenReminder = (debtor: any) => {
     setSelectedDebtor({
@@ -96,6 +113,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
           customerName: selectedDebtor.customer_name,
           customerEmail: reminderEmail,
           outstandingBalance: selectedDebtor.current_balance,
+          currency,
         },
       });
 
@@ -119,7 +137,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     if (!selectedDebtor) return;
 
     const message = encodeURIComponent(
-      `Hi ${selectedDebtor.customer_name},\n\nThis is a friendly reminder that you have an outstanding balance of ₦${selectedDebtor.current_balance.toFixed(2)}.\n\nPlease settle this at your earliest convenience.\n\nThank you!`
+      `Hi ${selectedDebtor.customer_name},\n\nThis is a friendly reminder that you have an outstanding balance of ${formatAmount(selectedDebtor.current_balance)}.\n\nPlease settle this at your earliest convenience.\n\nThank you!`
     );
     
     // Remove any non-numeric characters from phone
@@ -142,6 +160,17 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     setIsPaymentModalOpen(true);
   };
 
+  const handleAddItems = (debtor: Tables<"debtors">) => {
+    setSelectedDebtor({
+      id: debtor.id,
+      customer_name: debtor.customer_name,
+      current_balance: Number(debtor.current_balance),
+      total_paid: Number(debtor.total_paid),
+      grand_total: Number(debtor.grand_total),
+    });
+    setIsAddItemsModalOpen(true);
+  };
+
   const handleViewHistory = (debtor: any) => {
     setSelectedDebtor({
       id: debtor.id,
@@ -183,8 +212,19 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     setItemErrors({ ...itemErrors, [field]: "" });
   };
 
+  const handleStockSelect = (item: StockOption | null) => {
+    setCurrentItem({
+      ...currentItem,
+      stock_id: item ? item.id : CUSTOM_ITEM,
+      stock_quantity: item ? item.quantity : 0,
+      item_name: item ? item.product_name : "",
+      selling_price: item?.selling_price ? String(item.selling_price) : currentItem.selling_price,
+    });
+    setItemErrors({ ...itemErrors, item_name: "", selling_price: "" });
+  };
+
   const addItemToBundle = () => {
-    const validation = itemSchema.safeParse(currentItem);
+    const validation = debtItemSchema.safeParse(currentItem);
     if (!validation.success) {
       const newErrors: Record<string, string> = {};
       validation.error.errors.forEach((err) => {
@@ -194,10 +234,25 @@ const DebtPage = ({ userId }: DebtPageProps) => {
       return;
     }
 
+    if (currentItem.due_date && currentItem.due_date < currentItem.item_date) {
+      setItemErrors({ due_date: "Due date cannot be before the item date" });
+      return;
+    }
+
     const quantity = parseInt(currentItem.quantity);
     const sellingPrice = parseFloat(currentItem.selling_price);
     const total = quantity * sellingPrice;
 
+    if (currentItem.stock_id && currentItem.stock_id !== CUSTOM_ITEM) {
+      const alreadyInBundle = formData.items
+        .filter((item) => item.stock_id === currentItem.stock_id)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      if (alreadyInBundle + quantity > currentItem.stock_quantity) {
+        setItemErrors({ quantity: `Only ${currentItem.stock_quantity - alreadyInBundle} units available in stock` });
+        return;
+      }
+    }
+
     const newItem = {
       ...currentItem,
       quantity,
@@ -211,6 +266,9 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     setFormData({ ...formData, items: updatedItems, grand_total: grandTotal });
     setCurrentItem({
       item_date: format(new Date(), "yyyy-MM-dd"),
+      due_date: "",
+      stock_id: "",
+      stock_quantity: 0,
       item_name: "",
       quantity: "",
       selling_price: "",
@@ -257,54 +315,37 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     }
 
     setLoading(true);
-    const currentBalance = formData.grand_total - paymentAmount;
-    const status = currentBalance <= 0 ? "paid" : "pending";
-
-    const { data: debtorData, error: debtorError } = await supabase
-      .from("debtors")
-      .insert({
-        user_id: userId,
-        customer_name: formData.customer_name.trim(),
-        customer_phone: formData.customer_phone.trim(),
-        customer_email: formData.customer_email.trim() || null,
-        grand_total: formData.grand_total,
-        total_paid: paymentAmount,
-        current_balance: currentBalance,
-        status,
-      })
-      .select()
-      .single();
-
-    if (debtorError) {
-      setLoading(false);
-      toast({ title: "Error creating debtor", description: debtorError.message, variant: "destructive" });
-      return;
-    }
-
-    const itemsToInsert = formData.items.map((item) => ({
-      debtor_id: debtorData.id,
-      item_date: item.item_date,
-      item_name: item.item_name.trim(),
-      quantity: item.quantity,
-      selling_price: item.selling_price,
-      total: item.total,
-    }));
 
-    const { error: itemsError } = await supabase.from("debt_items").insert(itemsToInsert);
+    // Debtor, items and opening payment are written in one database transaction
+    const { error } = await supabase.rpc("create_debtor", {
+      p_customer_name: formData.customer_name.trim(),
+      p_customer_phone: formData.customer_phone.trim(),
+      p_customer_email: formData.customer_email.trim() || null,
+      p_items: formData.items.map((item) => ({
+        stock_id: item.stock_id && item.stock_id !== CUSTOM_ITEM ? item.stock_id : null,
+        item_date: item.item_date,
+        due_date: item.due_date || null,
+        item_name: item.item_name.trim(),
+        quantity: item.quantity,
+        selling_price: item.selling_price,
+      })),
+      p_initial_payment: paymentAmount,
+      p_payment_method: formData.payment_method,
+      p_payment_reference: formData.payment_reference.trim() || null,
+      p_payment_terms: formData.payment_terms === NO_TERMS ? null : parseInt(formData.payment_terms),
+      p_due_date: formData.due_date || null,
+    });
 
-    if (itemsError) {
+    if (error) {
       setLoading(false);
-      toast({ title: "Error adding items", description: itemsError.message, variant: "destructive" });
+      if (error.message === "insufficient_stock") {
+        toast({ title: "Insufficient stock", description: error.details, variant: "destructive" });
+      } else {
+        toast({ title: "Error creating debtor", description: error.message, variant: "destructive" });
+      }
       return;
     }
 
-    if (paymentAmount > 0) {
-      await supabase.from("payments").insert({
-        debtor_id: debtorData.id,
-        amount: paymentAmount,
-      });
-    }
-
     setLoading(false);
     toast({ title: "Debtor created successfully!" });
     setFormData({
@@ -314,13 +355,34 @@ const DebtPage = ({ userId }: DebtPageProps) => {
       items: [],
       grand_total: 0,
       payment_amount: "",
+      payment_method: "cash",
+      payment_reference: "",
+      payment_terms: NO_TERMS,
+      due_date: "",
     });
     setErrors({});
     fetchDebtors();
   };
 
   const deleteDebtor = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this debtor and all associated records?")) return;
+    // Deleting a debtor deletes their credit items, which puts stocked goods back on the shelf
+    const { data: stockedItems, error: itemsError } = await supabase
+      .from("debt_items")
+      .select("quantity")
+      .eq("debtor_id", id)
+      .not("stock_id", "is", null);
+
+    if (itemsError) {
+      toast({ title: "Error deleting debtor", description: itemsError.message, variant: "destructive" });
+      return;
+    }
+
+    const units = stockedItems.reduce((sum, item) => sum + item.quantity, 0);
+    const message =
+      units > 0
+        ? `Are you sure you want to delete this debtor and all associated records? ${units} unit${units === 1 ? "" : "s"} from their credit items will be returned to stock.`
+        : "Are you sure you want to delete this debtor and all associated records?";
+    if (!confirm(message)) return;
     
     setLoading(true);
     const { error } = await supabase.from("debtors").delete().eq("id", id);
@@ -334,7 +396,38 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     }
   };
 
-  const exportDebtors = () => {
+  const handleOpenTerms = (debtor: Tables<"debtors">) => {
+    setTermsDebtor(debtor);
+    setTermsForm({
+      payment_terms: debtor.payment_terms === null ? NO_TERMS : String(debtor.payment_terms),
+      due_date: debtor.due_date || "",
+    });
+  };
+
+  // Items without their own due date follow the new terms; the next due date is recomputed by the database
+  const saveTerms = async () => {
+    if (!termsDebtor) return;
+
+    setLoading(true);
+    const { error } = await supabase
+      .from("debtors")
+      .update({
+        payment_terms: termsForm.payment_terms === NO_TERMS ? null : parseInt(termsForm.payment_terms),
+        due_date: termsForm.due_date || null,
+      })
+      .eq("id", termsDebtor.id);
+    setLoading(false);
+
+    if (error) {
+      toast({ title: "Error updating payment terms", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Payment terms updated" });
+      setTermsDebtor(null);
+      fetchDebtors();
+    }
+  };
+
+  const exportDebtors = async (exportFormat: ExportFormat) => {
     const exportList = filteredDebtors.length > 0 ? filteredDebtors : debtors;
     if (exportList.length === 0) {
       toast({ title: "No debtors to export", variant: "destructive" });
@@ -357,28 +450,151 @@ const DebtPage = ({ userId }: DebtPageProps) => {
     const exportData = dataToExport.map((debtor) => ({
       "Customer Name": debtor.customer_name,
       "Phone Number": debtor.customer_phone,
-      "Grand Total": debtor.grand_total,
-      "Total Paid": debtor.total_paid,
-      "Current Balance": debtor.current_balance,
-      Status: debtor.status,
+      [`Grand Total (${currency})`]: debtor.grand_total,
+      [`Total Paid (${currency})`]: debtor.total_paid,
+      [`Current Balance (${currency})`]: debtor.current_balance,
+      Status: debtStatus(debtor),
+      "Payment Terms": paymentTermsLabel(debtor.payment_terms),
+      "Next Due Date": debtor.next_due_date || "",
       "Created Date": format(new Date(debtor.created_at), "yyyy-MM-dd"),
     }));
     
     const dateRange = exportStartDate && exportEndDate 
       ? `${exportStartDate}_to_${exportEndDate}` 
       : format(new Date(), "yyyy-MM-dd");
-    exportToCsv(`debtors_report_${dateRange}`, exportData);
+    const money = (column: string) => `${column} (${currency})`;
+    const types: Record<string, ExportCellType> = {
+      "Created Date": "date",
+      "Next Due Date": "date",
+      Date: "date",
+      "Due Date": "date",
+      Quantity: "integer",
+    };
+    ["Grand Total", "Total Paid", "Current Balance", "Price", "Total", "Amount"].forEach((column) => {
+      types[money(column)] = "amount";
+    });
+    const tables: ExportTable[] = [
+      {
+        name: "Debtors",
+        title: "Debtors",
+        rows: exportData,
+        types,
+        totals: [money("Grand Total"), money("Total Paid"), money("Current Balance")],
+      },
+    ];
+
+    // Workbooks and PDFs also carry the items and payments behind each balance
+    if (exportFormat !== "csv") {
+      const names = new Map(dataToExport.map((debtor) => [debtor.id, debtor.customer_name]));
+
+      // Read the user's items and payments a page at a time and keep those of the exported debtors
+      const fetchItems = async () => {
+        const rows: Tables<"debt_items">[] = [];
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from("debt_items")
+            .select("*, debtors!inner(user_id)")
+            .eq("debtors.user_id", userId)
+            .order("item_date")
+            .order("id")
+            .range(from, from + PAGE_SIZE - 1);
+          if (error) throw new Error(`Items: ${error.message}`);
+          rows.push(...data.filter((item) => names.has(item.debtor_id)));
+          if (data.length < PAGE_SIZE) return rows;
+        }
+      };
+      const fetchPayments = async () => {
+        const rows: Tables<"payments">[] = [];
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from("payments")
+            .select("*, debtors!inner(user_id)")
+            .eq("debtors.user_id", userId)
+            .is("voided_at", null)
+            .order("payment_date")
+            .order("id")
+            .range(from, from + PAGE_SIZE - 1);
+          if (error) throw new Error(`Payments: ${error.message}`);
+          rows.push(...data.filter((payment) => names.has(payment.debtor_id)));
+          if (data.length < PAGE_SIZE) return rows;
+        }
+      };
+
+      let items: Tables<"debt_items">[];
+      let payments: Tables<"payments">[];
+      try {
+        [items, payments] = await Promise.all([fetchItems(), fetchPayments()]);
+      } catch (error) {
+        toast({
+          title: "Error exporting debtors",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      tables.push(
+        {
+          name: "Items",
+          title: "Debt Items",
+          rows: items.map((item) => ({
+            "Customer Name": names.get(item.debtor_id),
+            Date: item.item_date,
+            "Due Date": item.due_date || "",
+            Item: item.item_name,
+            Quantity: item.quantity,
+            [money("Price")]: item.selling_price,
+            [money("Total")]: item.total,
+          })),
+          types,
+          totals: ["Quantity", money("Total")],
+        },
+        {
+          name: "Payments",
+          title: "Payments",
+          rows: payments.map((payment) => ({
+            "Customer Name": names.get(payment.debtor_id),
+            Date: payment.payment_date ? format(new Date(payment.payment_date), "yyyy-MM-dd") : "",
+            Method: paymentMethodLabel(payment.payment_method),
+            Reference: payment.reference || "",
+            [money("Amount")]: payment.amount,
+          })),
+          types,
+          totals: [money("Amount")],
+        }
+      );
+    }
+
+    try {
+      await exportReport(
+        exportFormat,
+        `debtors_report_${dateRange}`,
+        tables,
+        exportStartDate && exportEndDate ? `Created ${exportStartDate} to ${exportEndDate}` : undefined
+      );
+    } catch (error) {
+      toast({
+        title: "Error exporting debtors",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
     toast({ title: `Exported ${dataToExport.length} debtors successfully!` });
   };
 
   const calculateStats = () => {
     const totalOutstanding = debtors.reduce((sum, d) => sum + parseFloat(d.current_balance), 0);
-    const activeDebtors = debtors.filter((d) => d.status === "pending").length;
+    // Counted with the same computed status as the status filter, so the cards match what it shows
+    const pendingDebtors = debtors.filter((d) => debtStatus(d) === "pending").length;
+    const overdue = debtors.filter((d) => debtStatus(d) === "overdue");
+    const overdueDebtors = overdue.length;
+    const overdueBalance = overdue.reduce((sum, d) => sum + parseFloat(d.current_balance), 0);
     const paidThisMonth = debtors
       .filter((d) => new Date(d.updated_at).getMonth() === new Date().getMonth())
       .reduce((sum, d) => sum + parseFloat(d.total_paid), 0);
 
-    return { totalOutstanding, activeDebtors, paidThisMonth };
+    return { totalOutstanding, pendingDebtors, paidThisMonth, overdueDebtors, overdueBalance };
   };
 
   const stats = calculateStats();
@@ -393,7 +609,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
       // Status filter
       const matchesStatus =
         statusFilter === "all" ||
-        d.status === statusFilter;
+        debtStatus(d) === statusFilter;
       
       return matchesSearch && matchesStatus;
     })
@@ -409,6 +625,9 @@ const DebtPage = ({ userId }: DebtPageProps) => {
           return parseFloat(a.current_balance) - parseFloat(b.current_balance);
         case "name":
           return a.customer_name.localeCompare(b.customer_name);
+        case "overdue":
+          // Earliest unpaid due date first; debtors with nothing due go last
+          return (a.next_due_date || "9999-12-31").localeCompare(b.next_due_date || "9999-12-31");
         default:
           return 0;
       }
@@ -451,25 +670,33 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                 className="w-36 h-9"
               />
             </div>
-            <Button variant="secondary" size="sm" onClick={exportDebtors}>
-              <Download size={16} className="mr-2" /> Export CSV
+            <ExportMenu onExport={exportDebtors} />
+            <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+              <Upload size={16} className="mr-2" /> Import CSV
             </Button>
           </div>
         </div>
       </Card>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-5">
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Total Outstanding</h3>
-          <p className="text-3xl font-bold text-primary">₦{stats.totalOutstanding.toFixed(2)}</p>
+          <p className="text-3xl font-bold text-primary">{formatAmount(stats.totalOutstanding)}</p>
         </Card>
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Paid This Month</h3>
-          <p className="text-3xl font-bold text-success">₦{stats.paidThisMonth.toFixed(2)}</p>
+          <p className="text-3xl font-bold text-success">{formatAmount(stats.paidThisMonth)}</p>
         </Card>
         <Card className="p-5 text-center">
-          <h3 className="text-muted-foreground text-sm mb-2">Active Debtors</h3>
-          <p className="text-3xl font-bold text-info">{stats.activeDebtors}</p>
+          <h3 className="text-muted-foreground text-sm mb-2">Pending Debtors</h3>
+          <p className="text-3xl font-bold text-info">{stats.pendingDebtors}</p>
+        </Card>
+        <Card className="p-5 text-center">
+          <h3 className="text-muted-foreground text-sm mb-2">Overdue Debtors</h3>
+          <p className="text-3xl font-bold text-destructive">{stats.overdueDebtors}</p>
+          {stats.overdueDebtors > 0 && (
+            <p className="text-sm text-muted-foreground mt-1">{formatAmount(stats.overdueBalance)} outstanding</p>
+          )}
         </Card>
       </div>
 
@@ -497,6 +724,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
                 <SelectItem value="paid">Paid</SelectItem>
               </SelectContent>
             </Select>
@@ -513,6 +741,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                 <SelectItem value="highest">Highest Balance</SelectItem>
                 <SelectItem value="lowest">Lowest Balance</SelectItem>
                 <SelectItem value="name">Name (A-Z)</SelectItem>
+                <SelectItem value="overdue">Most Overdue</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -563,10 +792,38 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                 className="mt-2"
               />
             </div>
+            <div>
+              <Label>Payment Terms</Label>
+              <Select
+                value={formData.payment_terms}
+                onValueChange={(value) => handleCustomerChange("payment_terms", value)}
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_TERMS.map((terms) => (
+                    <SelectItem key={terms.value} value={terms.value}>
+                      {terms.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Account Due Date (Optional)</Label>
+              <Input
+                type="date"
+                value={formData.due_date}
+                onChange={(e) => handleCustomerChange("due_date", e.target.value)}
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Overrides the payment terms for every item</p>
+            </div>
           </div>
 
           <h3 className="font-semibold mt-6">Add Items</h3>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <Label>Date</Label>
               <Input
@@ -577,13 +834,31 @@ const DebtPage = ({ userId }: DebtPageProps) => {
               />
             </div>
             <div>
-              <Label>Item Name *</Label>
+              <Label>Due Date</Label>
               <Input
-                value={currentItem.item_name}
-                onChange={(e) => handleItemChange("item_name", e.target.value)}
-                placeholder="Enter item name"
+                type="date"
+                value={currentItem.due_date}
+                onChange={(e) => handleItemChange("due_date", e.target.value)}
                 className="mt-2"
               />
+              {itemErrors.due_date && <p className="text-destructive text-sm mt-1">{itemErrors.due_date}</p>}
+            </div>
+            <div>
+              <Label>Item *</Label>
+              <StockPicker
+                userId={userId}
+                value={currentItem.stock_id}
+                onSelect={handleStockSelect}
+                className="mt-2"
+              />
+              {currentItem.stock_id === CUSTOM_ITEM && (
+                <Input
+                  value={currentItem.item_name}
+                  onChange={(e) => handleItemChange("item_name", e.target.value)}
+                  placeholder="Enter item name"
+                  className="mt-2"
+                />
+              )}
               {itemErrors.item_name && <p className="text-destructive text-sm mt-1">{itemErrors.item_name}</p>}
             </div>
             <div>
@@ -599,7 +874,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
               {itemErrors.quantity && <p className="text-destructive text-sm mt-1">{itemErrors.quantity}</p>}
             </div>
             <div>
-              <Label>Selling Price (₦) *</Label>
+              <Label>Selling Price ({symbol}) *</Label>
               <Input
                 type="number"
                 step="0.01"
@@ -621,8 +896,9 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                 {formData.items.map((item, index) => (
                   <li key={index} className="bg-muted p-3 rounded flex justify-between items-center">
                     <span>
-                      {item.item_name} - Qty: {item.quantity} - Price: ₦{item.selling_price.toFixed(2)} - Total: ₦
-                      {item.total.toFixed(2)}
+                      {item.item_name} - Qty: {item.quantity} - Price: {formatAmount(item.selling_price)} - Total:{" "}
+                      {formatAmount(item.total)}
+                      {item.due_date && ` - Due: ${format(new Date(`${item.due_date}T00:00:00`), "MMM dd, yyyy")}`}
                     </span>
                     <Button variant="ghost" size="sm" onClick={() => removeItemFromBundle(index)}>
                       <Trash2 size={16} className="text-destructive" />
@@ -634,7 +910,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
               <div className="mt-4 space-y-3">
                 <div>
                   <Label>Grand Total</Label>
-                  <Input value={`₦${formData.grand_total.toFixed(2)}`} disabled className="mt-2 font-bold" />
+                  <Input value={formatAmount(formData.grand_total)} disabled className="mt-2 font-bold" />
                 </div>
                 <div>
                   <Label>Initial Payment Amount (Optional)</Label>
@@ -649,10 +925,42 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                   />
                   {errors.payment_amount && <p className="text-destructive text-sm mt-1">{errors.payment_amount}</p>}
                 </div>
+                {parseFloat(formData.payment_amount) > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <Label>Payment Method</Label>
+                      <Select
+                        value={formData.payment_method}
+                        onValueChange={(value) => handleCustomerChange("payment_method", value)}
+                      >
+                        <SelectTrigger className="mt-2">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PAYMENT_METHODS.map((method) => (
+                            <SelectItem key={method.value} value={method.value}>
+                              {method.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Reference (Optional)</Label>
+                      <Input
+                        value={formData.payment_reference}
+                        onChange={(e) => handleCustomerChange("payment_reference", e.target.value)}
+                        placeholder="e.g. transfer ID"
+                        className="mt-2"
+                        maxLength={100}
+                      />
+                    </div>
+                  </div>
+                )}
                 <div>
                   <Label>Current Balance</Label>
                   <Input
-                    value={`₦${currentBalance.toFixed(2)}`}
+                    value={formatAmount(currentBalance)}
                     disabled
                     className={`mt-2 font-bold ${currentBalance > 0 ? "text-warning" : "text-success"}`}
                   />
@@ -686,32 +994,62 @@ const DebtPage = ({ userId }: DebtPageProps) => {
               <Card key={debtor.id} className="p-4 border-l-4 border-primary">
                 <div className="flex justify-between items-start mb-3">
                   <div>
-                    <h3 className="font-semibold text-lg">{debtor.customer_name}</h3>
+                    {debtor.customer_id ? (
+                      <button
+                        onClick={() => setProfileCustomerId(debtor.customer_id)}
+                        className="font-semibold text-lg text-left hover:underline"
+                        title="View customer profile"
+                      >
+                        {debtor.customer_name}
+                      </button>
+                    ) : (
+                      <h3 className="font-semibold text-lg">{debtor.customer_name}</h3>
+                    )}
                     <p className="text-sm text-muted-foreground">{debtor.customer_phone}</p>
                   </div>
                   <span
                     className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                      debtor.status === "paid" ? "bg-success text-white" : "bg-warning text-white"
+                      debtStatus(debtor) === "paid"
+                        ? "bg-success text-white"
+                        : debtStatus(debtor) === "overdue"
+                          ? "bg-destructive text-white"
+                          : "bg-warning text-white"
                     }`}
                   >
-                    {debtor.status}
+                    {debtStatus(debtor)}
                   </span>
                 </div>
-                <p className="text-sm text-muted-foreground mb-3">
+                <p className="text-sm text-muted-foreground">
                   {format(new Date(debtor.created_at), "MMM dd, yyyy")}
                 </p>
+                <button
+                  onClick={() => handleOpenTerms(debtor)}
+                  className="flex items-center gap-1 text-sm mb-3 hover:underline text-left"
+                  title="Edit payment terms"
+                >
+                  <CalendarClock size={14} />
+                  {debtStatus(debtor) === "overdue" ? (
+                    <span className="text-destructive font-semibold">
+                      {daysOverdue(debtor)} day{daysOverdue(debtor) === 1 ? "" : "s"} overdue
+                    </span>
+                  ) : debtor.status === "pending" && debtor.next_due_date ? (
+                    <span>Due {format(new Date(`${debtor.next_due_date}T00:00:00`), "MMM dd, yyyy")}</span>
+                  ) : (
+                    <span className="text-muted-foreground">{paymentTermsLabel(debtor.payment_terms) || "Set payment terms"}</span>
+                  )}
+                </button>
                 <div className="grid grid-cols-3 gap-2 mb-4">
                   <div className="text-center">
                     <p className="text-xs text-muted-foreground">Total</p>
-                    <p className="font-semibold">₦{parseFloat(debtor.grand_total).toFixed(2)}</p>
+                    <p className="font-semibold">{formatAmount(parseFloat(debtor.grand_total))}</p>
                   </div>
                   <div className="text-center">
                     <p className="text-xs text-muted-foreground">Paid</p>
-                    <p className="font-semibold text-success">₦{parseFloat(debtor.total_paid).toFixed(2)}</p>
+                    <p className="font-semibold text-success">{formatAmount(parseFloat(debtor.total_paid))}</p>
                   </div>
                   <div className="text-center">
                     <p className="text-xs text-muted-foreground">Balance</p>
-                    <p className="font-semibold text-warning">₦{parseFloat(debtor.current_balance).toFixed(2)}</p>
+                    <p className="font-semibold text-warning">{formatAmount(parseFloat(debtor.current_balance))}</p>
                   </div>
                 </div>
                 <div className="flex gap-2 flex-wrap">
@@ -737,6 +1075,15 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                       </Button>
                     </>
                   )}
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => handleAddItems(debtor)} 
+                    disabled={loading}
+                    className="flex-1"
+                  >
+                    <PackagePlus size={14} className="mr-1" /> Add Items
+                  </Button>
                   <Button 
                     variant="secondary" 
                     size="sm" 
@@ -746,6 +1093,15 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                   >
                     <History size={14} className="mr-1" /> History
                   </Button>
+                  <Button 
+                    variant="secondary" 
+                    size="sm" 
+                    onClick={() => setStatementDebtor(debtor)} 
+                    disabled={loading}
+                    className="flex-1"
+                  >
+                    <FileText size={14} className="mr-1" /> Statement
+                  </Button>
                   <Button 
                     variant="destructive" 
                     size="sm" 
@@ -762,6 +1118,10 @@ const DebtPage = ({ userId }: DebtPageProps) => {
         )}
       </Card>
 
+      <AgingReport userId={userId} debtors={debtors} />
+
+      <CollectionsReport userId={userId} />
+
       <PaymentModal
         isOpen={isPaymentModalOpen}
         onClose={() => setIsPaymentModalOpen(false)}
@@ -769,12 +1129,83 @@ const DebtPage = ({ userId }: DebtPageProps) => {
         onPaymentSuccess={fetchDebtors}
       />
 
+      <AddItemsModal
+        userId={userId}
+        isOpen={isAddItemsModalOpen}
+        onClose={() => setIsAddItemsModalOpen(false)}
+        debtor={selectedDebtor}
+        onItemsAdded={fetchDebtors}
+      />
+
       <PaymentHistory
         isOpen={isHistoryModalOpen}
         onClose={() => setIsHistoryModalOpen(false)}
         debtor={selectedDebtor}
+        onPaymentsChanged={fetchDebtors}
+      />
+
+      <CustomerProfile
+        isOpen={!!profileCustomerId}
+        onClose={() => setProfileCustomerId(null)}
+        customerId={profileCustomerId}
+      />
+
+      <StatementModal
+        userId={userId}
+        isOpen={!!statementDebtor}
+        onClose={() => setStatementDebtor(null)}
+        debtor={statementDebtor}
       />
 
+      <Dialog open={!!termsDebtor} onOpenChange={(open) => !open && setTermsDebtor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Payment Terms - {termsDebtor?.customer_name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            <div>
+              <Label>Payment Terms</Label>
+              <Select
+                value={termsForm.payment_terms}
+                onValueChange={(value) => setTermsForm({ ...termsForm, payment_terms: value })}
+              >
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_TERMS.map((terms) => (
+                    <SelectItem key={terms.value} value={terms.value}>
+                      {terms.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Account Due Date (Optional)</Label>
+              <Input
+                type="date"
+                value={termsForm.due_date}
+                onChange={(e) => setTermsForm({ ...termsForm, due_date: e.target.value })}
+                className="mt-2"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Items with their own due date keep it. Other items are due on the account due date if set, otherwise
+              the number of days in the terms after the item date.
+            </p>
+            <div className="flex gap-3">
+              <Button variant="secondary" onClick={() => setTermsDebtor(null)} className="flex-1">
+                Cancel
+              </Button>
+              <Button onClick={saveTerms} disabled={loading} className="flex-1">
+                {loading ? "Saving..." : "Save Terms"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Reminder Modal */}
       <Dialog open={isReminderModalOpen} onOpenChange={setIsReminderModalOpen}>
         <DialogContent>
@@ -787,7 +1218,7 @@ const DebtPage = ({ userId }: DebtPageProps) => {
                 Send a reminder to <span className="font-semibold">{selectedDebtor?.customer_name}</span>
               </p>
               <p className="text-lg font-bold text-warning mb-4">
-                Outstanding: ₦{selectedDebtor?.current_balance?.toFixed(2)}
+                Outstanding: {formatAmount(selectedDebtor?.current_balance)}
               </p>
             </div>
 
@@ -836,6 +1267,14 @@ const DebtPage = ({ userId }: DebtPageProps) => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <CsvImportWizard
+        isOpen={importOpen}
+        onClose={() => setImportOpen(false)}
+        userId={userId}
+        dataset="debtors"
+        onImported={fetchDebtors}
+      />
     </div>
   );
 };
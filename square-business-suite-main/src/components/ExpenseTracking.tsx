@@ -5,10 +5,14 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Card } from "./ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
 import { format, startOfMonth, endOfMonth } from "date-fns";
-import { Trash2, Plus, Download, TrendingDown } from "lucide-react";
-import { z } from "zod";
-import { exportToCsv } from "@/lib/exportCsv";
+import { Trash2, Plus, TrendingDown, Upload } from "lucide-react";
+import { exportReport, ExportCellType, ExportFormat } from "@/lib/exportReport";
+import ExportMenu from "./ExportMenu";
+import CsvImportWizard from "./CsvImportWizard";
+import { expenseSchema } from "@/lib/schemas";
+import { EXPENSE_CATEGORIES } from "@/lib/expenses";
 import {
   Select,
   SelectContent,
@@ -21,28 +25,6 @@ interface ExpenseTrackingProps {
   userId: string;
 }
 
-const expenseSchema = z.object({
-  expense_date: z.string().min(1, "Date is required"),
-  category: z.string().min(1, "Category is required"),
-  description: z.string().min(1, "Description is required").max(200, "Description too long"),
-  amount: z.string().refine((val) => parseFloat(val) >= 0.01, "Amount must be at least 0.01"),
-});
-
-const EXPENSE_CATEGORIES = [
-  "Rent",
-  "Utilities",
-  "Salaries",
-  "Inventory",
-  "Transportation",
-  "Marketing",
-  "Equipment",
-  "Supplies",
-  "Maintenance",
-  "Insurance",
-  "Taxes",
-  "Other",
-];
-
 const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
   const [expenses, setExpenses] = useState<any[]>([]);
   const [showForm, setShowForm] = useState(false);
@@ -55,7 +37,9 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
     description: "",
     amount: "",
   });
+  const [importOpen, setImportOpen] = useState(false);
   const { toast } = useToast();
+  const { currency, formatAmount, symbol } = useCurrency();
 
   const fetchExpenses = async () => {
     setLoading(true);
@@ -141,29 +125,51 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
     }
   };
 
-  const exportExpenses = () => {
+  const totalExpenses = expenses.reduce((sum, e) => sum + parseFloat(e.amount), 0);
+  const expensesByCategory = expenses.reduce((acc: Record<string, number>, e) => {
+    acc[e.category] = (acc[e.category] || 0) + parseFloat(e.amount);
+    return acc;
+  }, {});
+
+  const exportExpenses = async (exportFormat: ExportFormat) => {
     if (expenses.length === 0) {
       toast({ title: "No expenses to export", variant: "destructive" });
       return;
     }
 
+    const amountColumn = `Amount (${currency})`;
     const exportData = expenses.map((expense) => ({
       Date: format(new Date(expense.expense_date), "yyyy-MM-dd"),
       Category: expense.category,
       Description: expense.description,
-      Amount: expense.amount,
+      [amountColumn]: expense.amount,
     }));
+    const categoryData = Object.entries(expensesByCategory)
+      .sort((a, b) => (b[1] as number) - (a[1] as number))
+      .map(([category, amount]) => ({ Category: category, [amountColumn]: amount as number }));
+    const types: Record<string, ExportCellType> = { Date: "date", [amountColumn]: "amount" };
 
-    exportToCsv(`expenses_${filterMonth}`, exportData);
+    try {
+      await exportReport(
+        exportFormat,
+        `expenses_${filterMonth}`,
+        [
+          { name: "Expenses", title: "Expenses", rows: exportData, types, totals: [amountColumn] },
+          { name: "By Category", title: "Expenses by Category", rows: categoryData, types, totals: [amountColumn] },
+        ],
+        format(new Date(filterMonth), "MMMM yyyy")
+      );
+    } catch (error) {
+      toast({
+        title: "Error exporting expenses",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
     toast({ title: `Exported ${expenses.length} expenses successfully!` });
   };
 
-  const totalExpenses = expenses.reduce((sum, e) => sum + parseFloat(e.amount), 0);
-  const expensesByCategory = expenses.reduce((acc: Record<string, number>, e) => {
-    acc[e.category] = (acc[e.category] || 0) + parseFloat(e.amount);
-    return acc;
-  }, {});
-
   return (
     <div className="space-y-5">
       <Card className="p-5">
@@ -181,8 +187,9 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
               onChange={(e) => setFilterMonth(e.target.value)}
               className="w-40"
             />
-            <Button variant="secondary" size="sm" onClick={exportExpenses}>
-              <Download size={16} className="mr-1" /> Export
+            <ExportMenu onExport={exportExpenses} />
+            <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+              <Upload size={16} className="mr-1" /> Import
             </Button>
             <Button onClick={() => setShowForm(!showForm)}>
               <Plus size={16} className="mr-1" /> {showForm ? "Cancel" : "Add Expense"}
@@ -195,7 +202,7 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Total Expenses</h3>
-          <p className="text-2xl font-bold text-destructive">₦{totalExpenses.toFixed(2)}</p>
+          <p className="text-2xl font-bold text-destructive">{formatAmount(totalExpenses)}</p>
         </Card>
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Expense Count</h3>
@@ -204,7 +211,7 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
         <Card className="p-5 text-center">
           <h3 className="text-muted-foreground text-sm mb-2">Avg per Entry</h3>
           <p className="text-2xl font-bold text-warning">
-            ₦{expenses.length > 0 ? (totalExpenses / expenses.length).toFixed(2) : "0.00"}
+            {formatAmount(expenses.length > 0 ? totalExpenses / expenses.length : 0)}
           </p>
         </Card>
         <Card className="p-5 text-center">
@@ -223,7 +230,7 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
               .map(([category, amount]) => (
                 <div key={category} className="bg-muted/50 p-3 rounded-lg">
                   <p className="text-sm text-muted-foreground">{category}</p>
-                  <p className="font-semibold">₦{(amount as number).toFixed(2)}</p>
+                  <p className="font-semibold">{formatAmount(amount as number)}</p>
                   <p className="text-xs text-muted-foreground">
                     {(((amount as number) / totalExpenses) * 100).toFixed(1)}%
                   </p>
@@ -275,7 +282,7 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
                 {errors.description && <p className="text-destructive text-sm mt-1">{errors.description}</p>}
               </div>
               <div>
-                <Label>Amount (₦) *</Label>
+                <Label>Amount ({symbol}) *</Label>
                 <Input
                   type="number"
                   step="0.01"
@@ -321,7 +328,7 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
                       <span className="px-2 py-1 bg-muted rounded text-sm">{expense.category}</span>
                     </td>
                     <td className="p-3">{expense.description}</td>
-                    <td className="p-3 font-semibold text-destructive">₦{parseFloat(expense.amount).toFixed(2)}</td>
+                    <td className="p-3 font-semibold text-destructive">{formatAmount(parseFloat(expense.amount))}</td>
                     <td className="p-3">
                       <Button
                         variant="ghost"
@@ -336,7 +343,7 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
                 ))}
                 <tr className="bg-destructive/10 font-bold">
                   <td colSpan={3} className="p-3 text-right">Total:</td>
-                  <td className="p-3 text-lg text-destructive">₦{totalExpenses.toFixed(2)}</td>
+                  <td className="p-3 text-lg text-destructive">{formatAmount(totalExpenses)}</td>
                   <td></td>
                 </tr>
               </tbody>
@@ -344,6 +351,14 @@ const ExpenseTracking = ({ userId }: ExpenseTrackingProps) => {
           </div>
         )}
       </Card>
+
+      <CsvImportWizard
+        isOpen={importOpen}
+        onClose={() => setImportOpen(false)}
+        userId={userId}
+        dataset="expenses"
+        onImported={fetchExpenses}
+      />
     </div>
   );
 };
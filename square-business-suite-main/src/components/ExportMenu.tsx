@@ -0,0 +1,35 @@
+import { Button } from "./ui/button";
+import { Download } from "lucide-react";
+import { EXPORT_FORMATS, ExportFormat } from "@/lib/exportReport";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+interface ExportMenuProps {
+  onExport: (exportFormat: ExportFormat) => void;
+  label?: string;
+}
+
+const ExportMenu = ({ onExport, label = "Export" }: ExportMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="secondary" size="sm">
+          <Download size={16} className="mr-2" /> {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map((exportFormat) => (
+          <DropdownMenuItem key={exportFormat.value} onClick={() => onExport(exportFormat.value)}>
+            {exportFormat.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
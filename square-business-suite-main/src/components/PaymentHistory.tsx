@@ -1,8 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
 import { format } from "date-fns";
+import { Ban, Pencil } from "lucide-react";
+import { paymentMethodLabel } from "@/lib/paymentMethods";
 import {
   Dialog,
   DialogContent,
@@ -20,92 +25,318 @@ interface PaymentHistoryProps {
     total_paid: number;
     current_balance: number;
   } | null;
+  onPaymentsChanged: () => void;
 }
 
-interface Payment {
+interface AuditNote {
   id: string;
+  text: string;
+}
+
+interface TimelineEntry {
+  id: string;
+  type: "payment" | "items";
+  description: string;
+  note?: string | null;
   amount: number;
-  payment_date: string;
   created_at: string;
+  voided?: boolean;
+  audit?: AuditNote[];
 }
 
-const PaymentHistory = ({ isOpen, onClose, debtor }: PaymentHistoryProps) => {
-  const [payments, setPayments] = useState<Payment[]>([]);
+interface Correction {
+  paymentId: string;
+  mode: "edit" | "void";
+  amount: string;
+  reason: string;
+}
+
+const PaymentHistory = ({ isOpen, onClose, debtor, onPaymentsChanged }: PaymentHistoryProps) => {
+  const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [totals, setTotals] = useState({ grand_total: 0, total_paid: 0, current_balance: 0 });
+  const [correction, setCorrection] = useState<Correction | null>(null);
+  const [correctionError, setCorrectionError] = useState("");
+  const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { formatAmount, symbol } = useCurrency();
 
-  const fetchPayments = async () => {
+  const fetchHistory = async () => {
     if (!debtor) return;
     
     setLoading(true);
-    const { data, error } = await supabase
-      .from("payments")
-      .select("*")
-      .eq("debtor_id", debtor.id)
-      .order("created_at", { ascending: false });
+    const [paymentsResult, itemsResult] = await Promise.all([
+      supabase.from("payments").select("*, payment_audit(*)").eq("debtor_id", debtor.id),
+      supabase.from("debt_items").select("*").eq("debtor_id", debtor.id),
+    ]);
 
-    setLoading(false);
+    const error = paymentsResult.error || itemsResult.error;
     if (error) {
-      toast({ title: "Error fetching payments", description: error.message, variant: "destructive" });
-    } else {
-      setPayments(data || []);
+      setLoading(false);
+      toast({ title: "Error fetching history", description: error.message, variant: "destructive" });
+      return;
     }
+
+    // Resolve who made each correction
+    const auditUserIds = [
+      ...new Set((paymentsResult.data || []).flatMap((payment) => payment.payment_audit.map((a) => a.user_id))),
+    ];
+    const { data: profiles } = auditUserIds.length
+      ? await supabase.from("profiles").select("id, full_name").in("id", auditUserIds)
+      : { data: [] };
+    const nameOf = (id: string) => profiles?.find((p) => p.id === id)?.full_name || "Unknown user";
+
+    setLoading(false);
+
+    const paymentEntries: TimelineEntry[] = (paymentsResult.data || []).map((payment) => ({
+      id: payment.id,
+      type: "payment",
+      description: `Payment - ${paymentMethodLabel(payment.payment_method)}${payment.reference ? ` (Ref: ${payment.reference})` : ""}`,
+      note: payment.note,
+      amount: Number(payment.amount),
+      created_at: payment.created_at,
+      voided: !!payment.voided_at,
+      audit: payment.payment_audit
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+        .map((a) => ({
+          id: a.id,
+          text:
+            a.action === "void"
+              ? `Voided by ${nameOf(a.user_id)} on ${format(new Date(a.created_at), "MMM dd, yyyy HH:mm")}: ${a.reason}`
+              : `Changed from ${formatAmount(Number(a.old_amount))} to ${formatAmount(Number(a.new_amount))} by ${nameOf(a.user_id)} on ${format(new Date(a.created_at), "MMM dd, yyyy HH:mm")}: ${a.reason}`,
+        })),
+    }));
+
+    const grandTotal = (itemsResult.data || []).reduce((sum, item) => sum + Number(item.total), 0);
+    const totalPaid = (paymentsResult.data || [])
+      .filter((payment) => !payment.voided_at)
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+    setTotals({ grand_total: grandTotal, total_paid: totalPaid, current_balance: grandTotal - totalPaid });
+
+    // Items saved in the same request share a created_at, so group them into one addition
+    const itemGroups = (itemsResult.data || []).reduce((acc: Record<string, TimelineEntry>, item) => {
+      const key = item.created_at;
+      if (!acc[key]) {
+        acc[key] = { id: item.id, type: "items", description: "", amount: 0, created_at: item.created_at };
+      }
+      const label = `${item.item_name} x${item.quantity}`;
+      acc[key].description = acc[key].description ? `${acc[key].description}, ${label}` : label;
+      acc[key].amount += Number(item.total);
+      return acc;
+    }, {});
+
+    setEntries(
+      [...paymentEntries, ...Object.values(itemGroups)].sort(
+        (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      )
+    );
   };
 
   useEffect(() => {
     if (isOpen && debtor) {
-      fetchPayments();
+      setTotals({
+        grand_total: debtor.grand_total,
+        total_paid: debtor.total_paid,
+        current_balance: debtor.current_balance,
+      });
+      setCorrection(null);
+      fetchHistory();
     }
   }, [isOpen, debtor]);
 
+  const startCorrection = (entry: TimelineEntry, mode: "edit" | "void") => {
+    setCorrection({ paymentId: entry.id, mode, amount: entry.amount.toFixed(2), reason: "" });
+    setCorrectionError("");
+  };
+
+  const saveCorrection = async () => {
+    if (!correction) return;
+
+    if (!correction.reason.trim()) {
+      setCorrectionError("Please give a reason for this change");
+      return;
+    }
+
+    const amount = parseFloat(correction.amount);
+    if (correction.mode === "edit" && !(amount >= 0.01)) {
+      setCorrectionError("Amount must be at least 0.01");
+      return;
+    }
+
+    setSaving(true);
+
+    // Debtor totals and status are recomputed from the ledger by database triggers
+    const { error } =
+      correction.mode === "void"
+        ? await supabase.rpc("void_payment", {
+            p_payment_id: correction.paymentId,
+            p_reason: correction.reason.trim(),
+          })
+        : await supabase.rpc("edit_payment", {
+            p_payment_id: correction.paymentId,
+            p_amount: amount,
+            p_reason: correction.reason.trim(),
+          });
+
+    setSaving(false);
+    if (error) {
+      setCorrectionError(error.message);
+      return;
+    }
+
+    toast({ title: correction.mode === "void" ? "Payment voided" : "Payment updated" });
+    setCorrection(null);
+    fetchHistory();
+    onPaymentsChanged();
+  };
+
   if (!debtor) return null;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Payment History - {debtor.customer_name}</DialogTitle>
+          <DialogTitle>Account History - {debtor.customer_name}</DialogTitle>
         </DialogHeader>
         
         <div className="space-y-4">
           <div className="grid grid-cols-3 gap-4 bg-muted p-4 rounded-lg">
             <div className="text-center">
               <p className="text-xs text-muted-foreground">Grand Total</p>
-              <p className="font-bold">₦{debtor.grand_total.toFixed(2)}</p>
+              <p className="font-bold">{formatAmount(totals.grand_total)}</p>
             </div>
             <div className="text-center">
               <p className="text-xs text-muted-foreground">Total Paid</p>
-              <p className="font-bold text-success">₦{debtor.total_paid.toFixed(2)}</p>
+              <p className="font-bold text-success">{formatAmount(totals.total_paid)}</p>
             </div>
             <div className="text-center">
               <p className="text-xs text-muted-foreground">Balance</p>
-              <p className="font-bold text-warning">₦{debtor.current_balance.toFixed(2)}</p>
+              <p className="font-bold text-warning">{formatAmount(totals.current_balance)}</p>
             </div>
           </div>
 
           {loading ? (
-            <p className="text-center text-muted-foreground py-4">Loading payments...</p>
-          ) : payments.length === 0 ? (
-            <p className="text-center text-muted-foreground py-4">No payments recorded yet</p>
+            <p className="text-center text-muted-foreground py-4">Loading history...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">No history recorded yet</p>
           ) : (
-            <div className="max-h-64 overflow-y-auto">
+            <div className="max-h-80 overflow-y-auto">
               <table className="w-full">
                 <thead className="bg-muted sticky top-0">
                   <tr>
                     <th className="p-2 text-left text-sm">Date</th>
+                    <th className="p-2 text-left text-sm">Details</th>
                     <th className="p-2 text-right text-sm">Amount</th>
+                    <th className="p-2"></th>
                   </tr>
                 </thead>
                 <tbody>
-                  {payments.map((payment) => (
-                    <tr key={payment.id} className="border-b">
-                      <td className="p-2 text-sm">
-                        {format(new Date(payment.created_at), "MMM dd, yyyy HH:mm")}
-                      </td>
-                      <td className="p-2 text-right text-sm font-semibold text-success">
-                        +₦{parseFloat(String(payment.amount)).toFixed(2)}
-                      </td>
-                    </tr>
+                  {entries.map((entry) => (
+                    <Fragment key={entry.id}>
+                      <tr className={`border-b ${entry.voided ? "text-muted-foreground" : ""}`}>
+                        <td className="p-2 text-sm whitespace-nowrap align-top">
+                          {format(new Date(entry.created_at), "MMM dd, yyyy HH:mm")}
+                        </td>
+                        <td className="p-2 text-sm">
+                          <span className={entry.voided ? "line-through" : ""}>
+                            {entry.type === "items" ? `Items added: ${entry.description}` : entry.description}
+                          </span>
+                          {entry.voided && <span className="ml-2 text-xs font-semibold text-destructive">VOIDED</span>}
+                          {entry.note && <p className="text-xs text-muted-foreground">{entry.note}</p>}
+                          {entry.audit?.map((note) => (
+                            <p key={note.id} className="text-xs text-muted-foreground italic">
+                              {note.text}
+                            </p>
+                          ))}
+                        </td>
+                        {entry.type === "payment" ? (
+                          <td
+                            className={`p-2 text-right text-sm font-semibold align-top ${
+                              entry.voided ? "line-through" : "text-success"
+                            }`}
+                          >
+                            -{formatAmount(entry.amount)}
+                          </td>
+                        ) : (
+                          <td className="p-2 text-right text-sm font-semibold text-warning align-top">
+                            +{formatAmount(entry.amount)}
+                          </td>
+                        )}
+                        <td className="p-2 text-right whitespace-nowrap align-top">
+                          {entry.type === "payment" && !entry.voided && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => startCorrection(entry, "edit")}
+                                title="Edit payment"
+                              >
+                                <Pencil size={14} />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => startCorrection(entry, "void")}
+                                title="Void payment"
+                              >
+                                <Ban size={14} className="text-destructive" />
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                      {correction?.paymentId === entry.id && (
+                        <tr className="border-b bg-muted/50">
+                          <td colSpan={4} className="p-3 space-y-3">
+                            <div className="grid grid-cols-2 gap-3">
+                              {correction.mode === "edit" && (
+                                <div>
+                                  <Label className="text-xs">New Amount ({symbol})</Label>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    min="0.01"
+                                    value={correction.amount}
+                                    onChange={(e) => {
+                                      setCorrection({ ...correction, amount: e.target.value });
+                                      setCorrectionError("");
+                                    }}
+                                    className="mt-1 h-9"
+                                  />
+                                </div>
+                              )}
+                              <div className={correction.mode === "void" ? "col-span-2" : ""}>
+                                <Label className="text-xs">Reason *</Label>
+                                <Input
+                                  value={correction.reason}
+                                  onChange={(e) => {
+                                    setCorrection({ ...correction, reason: e.target.value });
+                                    setCorrectionError("");
+                                  }}
+                                  placeholder={correction.mode === "void" ? "Why is this payment void?" : "Why is the amount changing?"}
+                                  className="mt-1 h-9"
+                                  maxLength={200}
+                                />
+                              </div>
+                            </div>
+                            {correctionError && <p className="text-destructive text-sm">{correctionError}</p>}
+                            <div className="flex gap-2 justify-end">
+                              <Button variant="secondary" size="sm" onClick={() => setCorrection(null)}>
+                                Cancel
+                              </Button>
+                              <Button
+                                variant={correction.mode === "void" ? "destructive" : "default"}
+                                size="sm"
+                                onClick={saveCorrection}
+                                disabled={saving}
+                              >
+                                {saving ? "Saving..." : correction.mode === "void" ? "Void Payment" : "Save Amount"}
+                              </Button>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
@@ -3,13 +3,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { PAYMENT_METHODS } from "@/lib/paymentMethods";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
 import { z } from "zod";
 
 interface PaymentModalProps {
@@ -26,13 +36,19 @@ interface PaymentModalProps {
 
 const paymentSchema = z.object({
   amount: z.number().min(0.01, "Amount must be at least 0.01"),
+  reference: z.string().max(100, "Reference too long"),
+  note: z.string().max(500, "Note too long"),
 });
 
 const PaymentModal = ({ isOpen, onClose, debtor, onPaymentSuccess }: PaymentModalProps) => {
   const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [reference, setReference] = useState("");
+  const [note, setNote] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const { toast } = useToast();
+  const { formatAmount, symbol } = useCurrency();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,7 +57,7 @@ const PaymentModal = ({ isOpen, onClose, debtor, onPaymentSuccess }: PaymentModa
     if (!debtor) return;
 
     const paymentAmount = parseFloat(amount);
-    const validation = paymentSchema.safeParse({ amount: paymentAmount });
+    const validation = paymentSchema.safeParse({ amount: paymentAmount, reference, note });
 
     if (!validation.success) {
       setError(validation.error.errors[0].message);
@@ -55,41 +71,27 @@ const PaymentModal = ({ isOpen, onClose, debtor, onPaymentSuccess }: PaymentModa
 
     setLoading(true);
 
-    // Insert payment record
+    // Debtor totals and status are recomputed from the ledger by database triggers
     const { error: paymentError } = await supabase.from("payments").insert({
       debtor_id: debtor.id,
       amount: paymentAmount,
+      payment_method: paymentMethod,
+      reference: reference.trim() || null,
+      note: note.trim() || null,
     });
 
-    if (paymentError) {
-      setLoading(false);
-      toast({ title: "Error recording payment", description: paymentError.message, variant: "destructive" });
-      return;
-    }
-
-    // Update debtor balance
-    const newTotalPaid = debtor.total_paid + paymentAmount;
-    const newBalance = debtor.current_balance - paymentAmount;
-    const newStatus = newBalance <= 0 ? "paid" : "pending";
-
-    const { error: updateError } = await supabase
-      .from("debtors")
-      .update({
-        total_paid: newTotalPaid,
-        current_balance: newBalance,
-        status: newStatus,
-      })
-      .eq("id", debtor.id);
-
     setLoading(false);
 
-    if (updateError) {
-      toast({ title: "Error updating debtor", description: updateError.message, variant: "destructive" });
+    if (paymentError) {
+      toast({ title: "Error recording payment", description: paymentError.message, variant: "destructive" });
       return;
     }
 
     toast({ title: "Payment recorded successfully!" });
     setAmount("");
+    setPaymentMethod("cash");
+    setReference("");
+    setNote("");
     onPaymentSuccess();
     onClose();
   };
@@ -106,16 +108,16 @@ const PaymentModal = ({ isOpen, onClose, debtor, onPaymentSuccess }: PaymentModa
           <div className="bg-muted p-4 rounded-lg space-y-2">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Current Balance:</span>
-              <span className="font-bold text-warning">₦{debtor.current_balance.toFixed(2)}</span>
+              <span className="font-bold text-warning">{formatAmount(debtor.current_balance)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground">Total Paid:</span>
-              <span className="font-bold text-success">₦{debtor.total_paid.toFixed(2)}</span>
+              <span className="font-bold text-success">{formatAmount(debtor.total_paid)}</span>
             </div>
           </div>
 
           <div>
-            <Label>Payment Amount (₦)</Label>
+            <Label>Payment Amount ({symbol})</Label>
             <Input
               type="number"
               step="0.01"
@@ -132,12 +134,52 @@ const PaymentModal = ({ isOpen, onClose, debtor, onPaymentSuccess }: PaymentModa
             {error && <p className="text-destructive text-sm mt-1">{error}</p>}
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Payment Method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Reference (Optional)</Label>
+              <Input
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="e.g. transfer ID"
+                className="mt-2"
+                maxLength={100}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Note (Optional)</Label>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note about this payment"
+              className="mt-2"
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+
           {amount && parseFloat(amount) > 0 && (
             <div className="bg-muted p-4 rounded-lg">
               <div className="flex justify-between">
                 <span className="text-muted-foreground">New Balance:</span>
                 <span className="font-bold">
-                  ₦{(debtor.current_balance - parseFloat(amount)).toFixed(2)}
+                  {formatAmount(debtor.current_balance - parseFloat(amount))}
                 </span>
               </div>
             </div>
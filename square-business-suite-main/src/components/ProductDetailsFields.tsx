@@ -0,0 +1,112 @@
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useCurrency } from "@/hooks/use-currency";
+import { PRODUCT_UNITS } from "@/lib/products";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+export interface ProductDetails {
+  sku: string;
+  barcode: string;
+  category: string;
+  unit: string;
+  selling_price: string;
+}
+
+interface ProductDetailsFieldsProps {
+  values: ProductDetails;
+  onChange: (field: keyof ProductDetails, value: string) => void;
+  errors: Record<string, string>;
+  categories: string[];
+}
+
+export const emptyProductDetails = (): ProductDetails => ({
+  sku: "",
+  barcode: "",
+  category: "",
+  unit: "pcs",
+  selling_price: "",
+});
+
+// Catalogue fields shared by the add stock form and the edit stock dialog
+const ProductDetailsFields = ({ values, onChange, errors, categories }: ProductDetailsFieldsProps) => {
+  const { symbol } = useCurrency();
+
+  return (
+    <>
+      <div>
+        <Label>SKU (Optional)</Label>
+        <Input
+          value={values.sku}
+          onChange={(e) => onChange("sku", e.target.value)}
+          placeholder="e.g. RICE-50KG"
+          maxLength={50}
+          className="mt-2"
+        />
+        {errors.sku && <p className="text-destructive text-sm mt-1">{errors.sku}</p>}
+      </div>
+      <div>
+        <Label>Barcode (Optional)</Label>
+        <Input
+          value={values.barcode}
+          onChange={(e) => onChange("barcode", e.target.value)}
+          placeholder="EAN / UPC / Code 128"
+          maxLength={50}
+          className="mt-2"
+        />
+        {errors.barcode && <p className="text-destructive text-sm mt-1">{errors.barcode}</p>}
+      </div>
+      <div>
+        <Label>Category (Optional)</Label>
+        <Input
+          value={values.category}
+          onChange={(e) => onChange("category", e.target.value)}
+          placeholder="e.g. Beverages"
+          maxLength={50}
+          list="product-categories"
+          className="mt-2"
+        />
+        <datalist id="product-categories">
+          {categories.map((category) => (
+            <option key={category} value={category} />
+          ))}
+        </datalist>
+      </div>
+      <div>
+        <Label>Unit</Label>
+        <Select value={values.unit} onValueChange={(value) => onChange("unit", value)}>
+          <SelectTrigger className="mt-2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRODUCT_UNITS.map((unit) => (
+              <SelectItem key={unit.value} value={unit.value}>
+                {unit.label} ({unit.value})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label>Selling Price ({symbol}) (Optional)</Label>
+        <Input
+          type="number"
+          step="0.01"
+          min="0"
+          value={values.selling_price}
+          onChange={(e) => onChange("selling_price", e.target.value)}
+          placeholder="Prefilled when sold"
+          className="mt-2"
+        />
+        {errors.selling_price && <p className="text-destructive text-sm mt-1">{errors.selling_price}</p>}
+      </div>
+    </>
+  );
+};
+
+export default ProductDetailsFields;
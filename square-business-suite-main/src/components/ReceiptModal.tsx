@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import { Download, MessageCircle, Printer } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/currency";
+import { paymentMethodLabel } from "@/lib/paymentMethods";
+import { escapeHtml } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+interface ReceiptModalProps {
+  userId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  receiptId: string | null;
+}
+
+type ReceiptLine = Pick<Tables<"sales">, "id" | "product_name" | "quantity" | "selling_price">;
+
+type ReceiptDetails = Tables<"receipts"> & {
+  customers: Pick<Tables<"customers">, "name" | "phone"> | null;
+  sales: ReceiptLine[];
+};
+
+const DEFAULT_BUSINESS_NAME = "Square Business";
+
+const ReceiptModal = ({ userId, isOpen, onClose, receiptId }: ReceiptModalProps) => {
+  const [receipt, setReceipt] = useState<ReceiptDetails | null>(null);
+  const [businessName, setBusinessName] = useState(DEFAULT_BUSINESS_NAME);
+  const [whatsappPhone, setWhatsappPhone] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { currency, formatAmount } = useCurrency();
+
+  const fetchReceipt = async () => {
+    if (!receiptId) return;
+
+    setLoading(true);
+    const [receiptResult, settingsResult] = await Promise.all([
+      supabase
+        .from("receipts")
+        .select("*, customers(name, phone), sales(id, product_name, quantity, selling_price)")
+        .eq("id", receiptId)
+        .single(),
+      supabase.from("user_settings").select("business_name").eq("user_id", userId).maybeSingle(),
+    ]);
+
+    setLoading(false);
+    if (receiptResult.error) {
+      toast({ title: "Error fetching receipt", description: receiptResult.error.message, variant: "destructive" });
+      return;
+    }
+
+    setReceipt(receiptResult.data);
+    setWhatsappPhone(receiptResult.data.customers?.phone || "");
+    setBusinessName(settingsResult.data?.business_name || DEFAULT_BUSINESS_NAME);
+  };
+
+  useEffect(() => {
+    if (isOpen && receiptId) {
+      fetchReceipt();
+    }
+  }, [isOpen, receiptId]);
+
+  const saleDateTime = receipt ? `${format(new Date(receipt.sale_date), "MMM dd, yyyy")} ${receipt.sale_time.slice(0, 5)}` : "";
+
+  const handlePrint = () => {
+    if (!receipt) return;
+
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Receipt ${escapeHtml(receipt.receipt_number)}</title>
+          <style>
+            body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 380px; margin: 0 auto; }
+            h1 { font-size: 20px; text-align: center; margin: 0 0 5px 0; }
+            .meta { text-align: center; font-size: 12px; color: #666; margin-bottom: 15px; }
+            table { width: 100%; border-collapse: collapse; margin: 15px 0; font-size: 13px; }
+            th, td { padding: 6px 0; text-align: left; border-bottom: 1px dashed #ccc; }
+            .right { text-align: right; }
+            .totals td { border: none; padding: 3px 0; }
+            .grand td { font-weight: bold; font-size: 16px; border-top: 2px solid #333; padding-top: 8px; }
+            .footer { text-align: center; font-size: 12px; color: #666; margin-top: 20px; }
+          </style>
+        </head>
+        <body>
+          <h1>${escapeHtml(businessName)}</h1>
+          <div class="meta">
+            <div>Receipt ${escapeHtml(receipt.receipt_number)}</div>
+            <div>${saleDateTime}</div>
+            ${receipt.customers ? `<div>Customer: ${escapeHtml(receipt.customers.name)}</div>` : ""}
+          </div>
+          <table>
+            <thead>
+              <tr><th>Item</th><th class="right">Qty</th><th class="right">Price</th><th class="right">Total</th></tr>
+            </thead>
+            <tbody>
+              ${receipt.sales
+                .map(
+                  (line) =>
+                    `<tr><td>${escapeHtml(line.product_name)}</td><td class="right">${line.quantity}</td><td class="right">${formatAmount(line.selling_price)}</td><td class="right">${formatAmount(line.quantity * line.selling_price)}</td></tr>`
+                )
+                .join("")}
+            </tbody>
+          </table>
+          <table class="totals">
+            <tr><td>Subtotal</td><td class="right">${formatAmount(receipt.subtotal)}</td></tr>
+            ${receipt.discount > 0 ? `<tr><td>Discount</td><td class="right">-${formatAmount(receipt.discount)}</td></tr>` : ""}
+            <tr class="grand"><td>Total</td><td class="right">${formatAmount(receipt.total)}</td></tr>
+            <tr><td>Paid by</td><td class="right">${escapeHtml(paymentMethodLabel(receipt.payment_method))}</td></tr>
+          </table>
+          <div class="footer">Thank you for your patronage!</div>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.print();
+  };
+
+  const handleDownloadPdf = () => {
+    if (!receipt) return;
+
+    // Built-in PDF fonts have no glyphs for most currency symbols, so amounts use the currency code
+    const pdfMoney = (amount: number) => formatCurrency(Number(amount), currency, "code");
+    const width = 80;
+    const margin = 5;
+    const right = width - margin;
+    const height = 75 + receipt.sales.length * 10;
+    const doc = new jsPDF({ unit: "mm", format: [width, height] });
+
+    let y = 10;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text(businessName, width / 2, y, { align: "center" });
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    y += 5;
+    doc.text(`Receipt ${receipt.receipt_number}`, width / 2, y, { align: "center" });
+    y += 4;
+    doc.text(saleDateTime, width / 2, y, { align: "center" });
+    if (receipt.customers) {
+      y += 4;
+      doc.text(`Customer: ${receipt.customers.name}`, width / 2, y, { align: "center" });
+    }
+
+    y += 4;
+    doc.line(margin, y, right, y);
+
+    receipt.sales.forEach((line) => {
+      y += 5;
+      doc.text(line.product_name, margin, y, { maxWidth: width - 2 * margin });
+      y += 4;
+      doc.text(`${line.quantity} x ${pdfMoney(line.selling_price)}`, margin, y);
+      doc.text(pdfMoney(line.quantity * line.selling_price), right, y, { align: "right" });
+    });
+
+    y += 3;
+    doc.line(margin, y, right, y);
+    y += 5;
+    doc.text("Subtotal", margin, y);
+    doc.text(pdfMoney(receipt.subtotal), right, y, { align: "right" });
+    if (receipt.discount > 0) {
+      y += 4;
+      doc.text("Discount", margin, y);
+      doc.text(`-${pdfMoney(receipt.discount)}`, right, y, { align: "right" });
+    }
+    y += 5;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    doc.text("Total", margin, y);
+    doc.text(pdfMoney(receipt.total), right, y, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    y += 4;
+    doc.text("Paid by", margin, y);
+    doc.text(paymentMethodLabel(receipt.payment_method), right, y, { align: "right" });
+    y += 8;
+    doc.text("Thank you for your patronage!", width / 2, y, { align: "center" });
+
+    doc.save(`receipt_${receipt.receipt_number}.pdf`);
+  };
+
+  const sendWhatsAppReceipt = () => {
+    if (!receipt) return;
+
+    const lines = receipt.sales
+      .map((line) => `${line.product_name} x${line.quantity} - ${formatAmount(line.quantity * line.selling_price)}`)
+      .join("\n");
+    const discount = receipt.discount > 0 ? `\nDiscount: -${formatAmount(receipt.discount)}` : "";
+    const message = encodeURIComponent(
+      `${businessName}\nReceipt ${receipt.receipt_number}\n${saleDateTime}\n\n${lines}\n\nSubtotal: ${formatAmount(receipt.subtotal)}${discount}\nTotal: ${formatAmount(receipt.total)}\nPaid by: ${paymentMethodLabel(receipt.payment_method)}\n\nThank you for your patronage!`
+    );
+
+    // Remove any non-numeric characters from phone
+    const phone = whatsappPhone.replace(/\D/g, "");
+    const whatsappUrl = `https://wa.me/${phone}?text=${message}`;
+
+    window.open(whatsappUrl, "_blank");
+    toast({ title: "WhatsApp opened with pre-filled receipt" });
+  };
+
+  if (!receiptId) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Receipt{receipt ? ` ${receipt.receipt_number}` : ""}</DialogTitle>
+        </DialogHeader>
+
+        {loading || !receipt ? (
+          <p className="text-center text-muted-foreground py-4">Loading receipt...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-center">
+              <p className="font-bold text-lg">{businessName}</p>
+              <p className="text-sm text-muted-foreground">{saleDateTime}</p>
+              {receipt.customers && (
+                <p className="text-sm text-muted-foreground">Customer: {receipt.customers.name}</p>
+              )}
+            </div>
+
+            <ul className="space-y-2 max-h-48 overflow-y-auto text-sm">
+              {receipt.sales.map((line) => (
+                <li key={line.id} className="flex justify-between border-b border-dashed pb-2">
+                  <span>
+                    {line.product_name} × {line.quantity}
+                  </span>
+                  <span>{formatAmount(line.quantity * line.selling_price)}</span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="bg-muted p-4 rounded-lg space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal:</span>
+                <span>{formatAmount(receipt.subtotal)}</span>
+              </div>
+              {receipt.discount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Discount:</span>
+                  <span>-{formatAmount(receipt.discount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-base">
+                <span className="text-muted-foreground">Total:</span>
+                <span className="font-bold text-primary">{formatAmount(receipt.total)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid by:</span>
+                <span>{paymentMethodLabel(receipt.payment_method)}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="outline" onClick={handlePrint}>
+                <Printer size={16} className="mr-2" /> Print
+              </Button>
+              <Button variant="outline" onClick={handleDownloadPdf}>
+                <Download size={16} className="mr-2" /> PDF
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Customer WhatsApp Number</Label>
+              <Input
+                type="tel"
+                value={whatsappPhone}
+                onChange={(e) => setWhatsappPhone(e.target.value)}
+                placeholder="e.g. 2348012345678"
+              />
+              <Button variant="secondary" onClick={sendWhatsAppReceipt} disabled={!whatsappPhone} className="w-full">
+                <MessageCircle size={16} className="mr-2" />
+                Send Receipt via WhatsApp
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptModal;
@@ -5,77 +5,158 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Card } from "./ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
 import { format } from "date-fns";
-import { z } from "zod";
-import { Download } from "lucide-react";
+import { ScanLine, Trash2, Upload } from "lucide-react";
 import StockManagement from "./StockManagement";
-import { exportToCsv } from "@/lib/exportCsv";
+import StockPicker, { CUSTOM_ITEM, StockOption } from "./StockPicker";
+import ReceiptModal from "./ReceiptModal";
+import BarcodeScanner from "./BarcodeScanner";
+import { useBarcodeWedge } from "@/hooks/use-barcode-wedge";
+import { exportReport, ExportCellType, ExportFormat } from "@/lib/exportReport";
+import ExportMenu from "./ExportMenu";
+import CsvImportWizard from "./CsvImportWizard";
+import { receiptSchema, saleLineSchema } from "@/lib/schemas";
+import { PAYMENT_METHODS, paymentMethodLabel } from "@/lib/paymentMethods";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
 
 interface SalesPageProps {
   userId: string;
 }
 
-const saleSchema = z.object({
-  sale_date: z.string().min(1, "Date is required"),
-  sale_time: z.string().min(1, "Time is required"),
-  product_name: z.string().min(1, "Product name is required").max(100, "Product name too long"),
-  quantity: z.string().refine((val) => parseInt(val) >= 1, "Quantity must be at least 1"),
-  cost_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Cost price must be at least 0.01"),
-  selling_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Selling price must be at least 0.01"),
-});
-
-interface StockItem {
-  id: string;
+interface CartItem {
+  stock_id: string | null;
   product_name: string;
-  cost_price: number;
   quantity: number;
+  cost_price: number;
+  selling_price: number;
+  total: number;
+}
+
+interface CustomerOption {
+  id: string;
+  name: string;
+  phone: string;
 }
 
+const WALK_IN_CUSTOMER = "walk-in";
+
+const emptyReceipt = () => ({
+  sale_date: format(new Date(), "yyyy-MM-dd"),
+  sale_time: format(new Date(), "HH:mm"),
+  customer_id: WALK_IN_CUSTOMER,
+  payment_method: "cash",
+  discount: "",
+});
+
+const emptyLine = () => ({
+  stock_id: "",
+  stock_quantity: 0,
+  product_name: "",
+  quantity: "",
+  cost_price: "",
+  selling_price: "",
+});
+
 const SalesPage = ({ userId }: SalesPageProps) => {
   const [sales, setSales] = useState<any[]>([]);
-  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [customers, setCustomers] = useState<CustomerOption[]>([]);
   const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [formData, setFormData] = useState({
-    sale_date: format(new Date(), "yyyy-MM-dd"),
-    sale_time: format(new Date(), "HH:mm"),
-    product_name: "",
-    quantity: "",
-    cost_price: "",
-    selling_price: "",
-  });
+  const [formData, setFormData] = useState(emptyReceipt());
+  const [currentLine, setCurrentLine] = useState(emptyLine());
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [stockVersion, setStockVersion] = useState(0);
+  const [receiptModalId, setReceiptModalId] = useState<string | null>(null);
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [wedgeEnabled, setWedgeEnabled] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const { toast } = useToast();
+  const { currency, formatAmount, symbol } = useCurrency();
 
-  const fetchStock = async () => {
+  const fetchCustomers = async () => {
     const { data } = await supabase
-      .from("stock")
-      .select("id, product_name, cost_price, quantity")
+      .from("customers")
+      .select("id, name, phone")
       .eq("user_id", userId)
-      .gt("quantity", 0)
-      .order("product_name");
-    setStockItems(data || []);
+      .order("name");
+    setCustomers(data || []);
   };
 
 
-  const exportSales = () => {
+  const exportSales = async (exportFormat: ExportFormat) => {
     if (sales.length === 0) {
       toast({ title: "No sales to export", variant: "destructive" });
       return;
     }
     const exportData = sales.map((sale) => ({
+      Receipt: sale.receipts?.receipt_number || "",
       Date: sale.sale_date,
       Time: sale.sale_time,
       Product: sale.product_name,
       Quantity: sale.quantity,
-      "Cost Price": sale.cost_price,
-      "Selling Price": sale.selling_price,
-      "Total Cost": sale.total_cost,
-      Revenue: sale.revenue,
-      "Profit/Loss": sale.profit_loss,
+      [`Cost Price (${currency})`]: sale.cost_price,
+      [`Selling Price (${currency})`]: sale.selling_price,
+      [`Discount (${currency})`]: sale.discount,
+      "Payment Method": paymentMethodLabel(sale.receipts?.payment_method),
+      [`Total Cost (${currency})`]: sale.total_cost,
+      [`Revenue (${currency})`]: sale.revenue,
+      [`Profit/Loss (${currency})`]: sale.profit_loss,
     }));
-    exportToCsv(`sales_${startDate}_to_${endDate}`, exportData);
+
+    const byProduct = new Map<string, { quantity: number; cost: number; revenue: number; profit: number }>();
+    sales.forEach((sale) => {
+      const product = byProduct.get(sale.product_name) || { quantity: 0, cost: 0, revenue: 0, profit: 0 };
+      product.quantity += sale.quantity;
+      product.cost += Number(sale.total_cost);
+      product.revenue += Number(sale.revenue);
+      product.profit += Number(sale.profit_loss);
+      byProduct.set(sale.product_name, product);
+    });
+    const productData = [...byProduct.entries()]
+      .sort((a, b) => b[1].revenue - a[1].revenue)
+      .map(([product, totals]) => ({
+        Product: product,
+        Quantity: totals.quantity,
+        [`Total Cost (${currency})`]: totals.cost,
+        [`Revenue (${currency})`]: totals.revenue,
+        [`Profit/Loss (${currency})`]: totals.profit,
+      }));
+
+    const money = (column: string) => `${column} (${currency})`;
+    const types: Record<string, ExportCellType> = { Date: "date", Quantity: "integer" };
+    ["Cost Price", "Selling Price", "Discount", "Total Cost", "Revenue", "Profit/Loss"].forEach((column) => {
+      types[money(column)] = "amount";
+    });
+    // Unit prices are not summed; quantities, discounts, costs, revenue and profit are
+    const productTotals = ["Quantity", money("Total Cost"), money("Revenue"), money("Profit/Loss")];
+
+    try {
+      await exportReport(
+        exportFormat,
+        `sales_${startDate}_to_${endDate}`,
+        [
+          { name: "Sales", title: "Sales", rows: exportData, types, totals: [...productTotals, money("Discount")] },
+          { name: "By Product", title: "Sales by Product", rows: productData, types, totals: productTotals },
+        ],
+        `${startDate} to ${endDate}`
+      );
+    } catch (error) {
+      toast({
+        title: "Error exporting sales",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
     toast({ title: "Sales exported successfully!" });
   };
 
@@ -88,7 +169,7 @@ const SalesPage = ({ userId }: SalesPageProps) => {
     setLoading(true);
     const { data, error } = await supabase
       .from("sales")
-      .select("*")
+      .select("*, receipts(receipt_number, payment_method)")
       .eq("user_id", userId)
       .gte("sale_date", startDate)
       .lte("sale_date", endDate)
@@ -104,7 +185,7 @@ const SalesPage = ({ userId }: SalesPageProps) => {
 
   useEffect(() => {
     fetchSales();
-    fetchStock();
+    fetchCustomers();
   }, [userId, startDate, endDate]);
 
   const handleChange = (field: string, value: string) => {
@@ -112,11 +193,146 @@ const SalesPage = ({ userId }: SalesPageProps) => {
     setErrors({ ...errors, [field]: "" });
   };
 
+  const handleLineChange = (field: string, value: string) => {
+    setCurrentLine({ ...currentLine, [field]: value });
+    setErrors({ ...errors, [field]: "" });
+  };
+
+  const handleStockSelect = (item: StockOption | null) => {
+    setCurrentLine({
+      ...currentLine,
+      stock_id: item ? item.id : CUSTOM_ITEM,
+      stock_quantity: item ? item.quantity : 0,
+      product_name: item ? item.product_name : "",
+      cost_price: item ? String(item.cost_price) : currentLine.cost_price,
+      selling_price: item?.selling_price ? String(item.selling_price) : currentLine.selling_price,
+    });
+    setErrors({ ...errors, product_name: "", cost_price: "", selling_price: "" });
+  };
+
+  // Scanned codes match a product's barcode first, then its SKU
+  const findScannedProduct = async (code: string) => {
+    for (const field of ["barcode", "sku"] as const) {
+      const { data } = await supabase
+        .from("stock")
+        .select("id, product_name, cost_price, quantity, selling_price, unit, sku, barcode")
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .eq(field, code)
+        .maybeSingle();
+      if (data) return data;
+    }
+    return null;
+  };
+
+  const handleScannedCode = async (code: string) => {
+    setScannerOpen(false);
+    const item = await findScannedProduct(code);
+
+    if (!item) {
+      toast({ title: "No product found", description: `Nothing in stock matches "${code}"`, variant: "destructive" });
+      return;
+    }
+    if (item.quantity <= 0) {
+      toast({ title: "Out of stock", description: `${item.product_name} has no stock left`, variant: "destructive" });
+      return;
+    }
+
+    // Scanning the product already on the line counts another unit
+    const sameProduct = currentLine.stock_id === item.id;
+    setCurrentLine({
+      stock_id: item.id,
+      stock_quantity: item.quantity,
+      product_name: item.product_name,
+      quantity: sameProduct ? String((parseInt(currentLine.quantity) || 0) + 1) : "1",
+      cost_price: String(item.cost_price),
+      selling_price: item.selling_price ? String(item.selling_price) : sameProduct ? currentLine.selling_price : "",
+    });
+    setErrors({ ...errors, product_name: "", quantity: "", cost_price: "", selling_price: "" });
+  };
+
+  useBarcodeWedge(handleScannedCode, wedgeEnabled && !scannerOpen);
+
+  const isStockLine = !!currentLine.stock_id && currentLine.stock_id !== CUSTOM_ITEM;
+
+  // Stock items are costed by the configured method (weighted average or FIFO),
+  // counting units of the same product already in the cart
+  useEffect(() => {
+    const quantity = parseInt(currentLine.quantity);
+    if (!isStockLine || isNaN(quantity) || quantity < 1) return;
+
+    const inCart = cart
+      .filter((item) => item.stock_id === currentLine.stock_id)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+    const fetchIssueCost = async () => {
+      const { data, error } = await supabase.rpc("stock_issue_cost", {
+        p_stock_id: currentLine.stock_id,
+        p_quantity: quantity,
+        p_skip: inCart,
+      });
+      if (!error && data !== null) {
+        setCurrentLine((line) =>
+          line.stock_id === currentLine.stock_id ? { ...line, cost_price: String(data) } : line
+        );
+      }
+    };
+
+    fetchIssueCost();
+  }, [currentLine.stock_id, currentLine.quantity]);
+
+  const addToCart = () => {
+    const validation = saleLineSchema.safeParse(currentLine);
+    if (!validation.success) {
+      const newErrors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) newErrors[err.path[0].toString()] = err.message;
+      });
+      setErrors(newErrors);
+      return;
+    }
+
+    const quantity = parseInt(currentLine.quantity);
+    const sellingPrice = parseFloat(currentLine.selling_price);
+    const stockId = currentLine.stock_id && currentLine.stock_id !== CUSTOM_ITEM ? currentLine.stock_id : null;
+
+    if (stockId) {
+      const alreadyAdded = cart
+        .filter((item) => item.stock_id === stockId)
+        .reduce((sum, item) => sum + item.quantity, 0);
+      if (alreadyAdded + quantity > currentLine.stock_quantity) {
+        setErrors({ quantity: `Only ${currentLine.stock_quantity - alreadyAdded} units available in stock` });
+        return;
+      }
+    }
+
+    setCart([
+      ...cart,
+      {
+        stock_id: stockId,
+        product_name: currentLine.product_name.trim(),
+        quantity,
+        cost_price: parseFloat(currentLine.cost_price),
+        selling_price: sellingPrice,
+        total: quantity * sellingPrice,
+      },
+    ]);
+    setCurrentLine(emptyLine());
+    setErrors({});
+  };
+
+  const removeFromCart = (index: number) => {
+    setCart(cart.filter((_, i) => i !== index));
+  };
+
+  const cartSubtotal = cart.reduce((sum, item) => sum + item.total, 0);
+  const cartDiscount = parseFloat(formData.discount) || 0;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors({});
 
-    const validation = saleSchema.safeParse(formData);
+    const validation = receiptSchema.safeParse(formData);
     if (!validation.success) {
       const newErrors: Record<string, string> = {};
       validation.error.errors.forEach((err) => {
@@ -126,76 +342,48 @@ const SalesPage = ({ userId }: SalesPageProps) => {
       return;
     }
 
-    setLoading(true);
-    const quantity = parseInt(formData.quantity);
-    const costPrice = parseFloat(formData.cost_price);
-    const sellingPrice = parseFloat(formData.selling_price);
-    const totalCost = quantity * costPrice;
-    const revenue = quantity * sellingPrice;
-    const profitLoss = revenue - totalCost;
-
-    // Check stock availability and deduct
-    const { data: stockItem } = await supabase
-      .from("stock")
-      .select("*")
-      .eq("user_id", userId)
-      .ilike("product_name", formData.product_name.trim())
-      .maybeSingle();
-
-    if (stockItem) {
-      if (stockItem.quantity < quantity) {
-        setLoading(false);
-        toast({ 
-          title: "Insufficient stock", 
-          description: `Only ${stockItem.quantity} units available in stock`, 
-          variant: "destructive" 
-        });
-        return;
-      }
+    if (cart.length === 0) {
+      toast({ title: "Please add at least one item to the cart", variant: "destructive" });
+      return;
+    }
 
-      // Deduct from stock
-      const { error: stockError } = await supabase
-        .from("stock")
-        .update({
-          quantity: stockItem.quantity - quantity,
-          total_sold: stockItem.total_sold + quantity,
-        })
-        .eq("id", stockItem.id);
-
-      if (stockError) {
-        setLoading(false);
-        toast({ title: "Error updating stock", description: stockError.message, variant: "destructive" });
-        return;
-      }
+    if (cartDiscount > cartSubtotal) {
+      setErrors({ discount: "Discount cannot exceed the subtotal" });
+      return;
     }
 
-    const { error } = await supabase.from("sales").insert({
-      user_id: userId,
-      sale_date: formData.sale_date,
-      sale_time: formData.sale_time,
-      product_name: formData.product_name.trim(),
-      quantity,
-      cost_price: costPrice,
-      selling_price: sellingPrice,
-      total_cost: totalCost,
-      revenue,
-      profit_loss: profitLoss,
+    setLoading(true);
+
+    // Receipt, sale lines and stock deduction run in one database transaction
+    const { data: receiptId, error } = await supabase.rpc("record_receipt", {
+      p_sale_date: formData.sale_date,
+      p_sale_time: formData.sale_time,
+      p_items: cart.map((item) => ({
+        stock_id: item.stock_id,
+        product_name: item.product_name,
+        quantity: item.quantity,
+        cost_price: item.cost_price,
+        selling_price: item.selling_price,
+      })),
+      p_customer_id: formData.customer_id === WALK_IN_CUSTOMER ? null : formData.customer_id,
+      p_payment_method: formData.payment_method,
+      p_discount: cartDiscount,
     });
 
     setLoading(false);
     if (error) {
-      toast({ title: "Error adding sale", description: error.message, variant: "destructive" });
+      if (error.message === "insufficient_stock") {
+        toast({ title: "Insufficient stock", description: error.details, variant: "destructive" });
+      } else {
+        toast({ title: "Error recording sale", description: error.message, variant: "destructive" });
+      }
     } else {
-      const stockMessage = stockItem ? " Stock updated." : "";
-      toast({ title: `Sale recorded successfully!${stockMessage}` });
-      setFormData({
-        sale_date: format(new Date(), "yyyy-MM-dd"),
-        sale_time: format(new Date(), "HH:mm"),
-        product_name: "",
-        quantity: "",
-        cost_price: "",
-        selling_price: "",
-      });
+      toast({ title: "Sale recorded successfully!" });
+      setFormData(emptyReceipt());
+      setCurrentLine(emptyLine());
+      setCart([]);
+      setStockVersion(stockVersion + 1);
+      setReceiptModalId(receiptId);
       fetchSales();
     }
   };
@@ -224,6 +412,8 @@ const SalesPage = ({ userId }: SalesPageProps) => {
     const netResult = totalRevenue - totalCost;
 
     return {
+      // Sales recorded before receipts existed count as a basket each
+      totalReceipts: new Set(sales.map((s) => s.receipt_id || s.id)).size,
       totalProducts: new Set(sales.map((s) => s.product_name)).size,
       totalQuantity,
       totalCost,
@@ -272,7 +462,7 @@ const SalesPage = ({ userId }: SalesPageProps) => {
       <StockManagement userId={userId} />
 
       <Card className="p-5">
-        <h2 className="text-xl font-semibold mb-4">➕ Add New Sale</h2>
+        <h2 className="text-xl font-semibold mb-4">➕ New Sale</h2>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
@@ -296,57 +486,187 @@ const SalesPage = ({ userId }: SalesPageProps) => {
               {errors.sale_time && <p className="text-destructive text-sm mt-1">{errors.sale_time}</p>}
             </div>
             <div>
-              <Label>Product Name</Label>
-              <Input
-                type="text"
-                value={formData.product_name}
-                onChange={(e) => handleChange("product_name", e.target.value)}
-                placeholder="Enter product name"
-                className="mt-2"
-              />
-              {errors.product_name && <p className="text-destructive text-sm mt-1">{errors.product_name}</p>}
+              <Label>Customer (Optional)</Label>
+              <Select value={formData.customer_id} onValueChange={(value) => handleChange("customer_id", value)}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WALK_IN_CUSTOMER}>Walk-in customer</SelectItem>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name} ({customer.phone})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div>
-              <Label>Quantity</Label>
-              <Input
-                type="number"
-                min="1"
-                value={formData.quantity}
-                onChange={(e) => handleChange("quantity", e.target.value)}
-                placeholder="Enter quantity"
-                className="mt-2"
-              />
-              {errors.quantity && <p className="text-destructive text-sm mt-1">{errors.quantity}</p>}
+              <Label>Payment Method</Label>
+              <Select value={formData.payment_method} onValueChange={(value) => handleChange("payment_method", value)}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <div>
-              <Label>Cost Price (₦)</Label>
-              <Input
-                type="number"
-                step="0.01"
-                min="0.01"
-                value={formData.cost_price}
-                onChange={(e) => handleChange("cost_price", e.target.value)}
-                placeholder="0.00"
-                className="mt-2"
-              />
-              {errors.cost_price && <p className="text-destructive text-sm mt-1">{errors.cost_price}</p>}
+          </div>
+
+          <div className="border-t pt-4">
+            <div className="flex justify-between items-center mb-3 flex-wrap gap-2">
+              <h3 className="font-semibold">Add Item</h3>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant={wedgeEnabled ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setWedgeEnabled(!wedgeEnabled)}
+                  title="Listen for a USB or Bluetooth barcode scanner"
+                >
+                  USB Scanner {wedgeEnabled ? "On" : "Off"}
+                </Button>
+                <Button type="button" variant="secondary" size="sm" onClick={() => setScannerOpen(true)}>
+                  <ScanLine size={16} className="mr-2" /> Scan Barcode
+                </Button>
+              </div>
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label>Product</Label>
+                <StockPicker
+                  key={stockVersion}
+                  userId={userId}
+                  value={currentLine.stock_id}
+                  onSelect={handleStockSelect}
+                  className="mt-2"
+                />
+                {currentLine.stock_id === CUSTOM_ITEM && (
+                  <Input
+                    type="text"
+                    value={currentLine.product_name}
+                    onChange={(e) => handleLineChange("product_name", e.target.value)}
+                    placeholder="Enter product name"
+                    className="mt-2"
+                  />
+                )}
+                {errors.product_name && <p className="text-destructive text-sm mt-1">{errors.product_name}</p>}
+              </div>
+              <div>
+                <Label>Quantity</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={currentLine.quantity}
+                  onChange={(e) => handleLineChange("quantity", e.target.value)}
+                  placeholder="Enter quantity"
+                  className="mt-2"
+                />
+                {errors.quantity && <p className="text-destructive text-sm mt-1">{errors.quantity}</p>}
+              </div>
+              <div>
+                <Label>Cost Price ({symbol})</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={currentLine.cost_price}
+                  onChange={(e) => handleLineChange("cost_price", e.target.value)}
+                  placeholder="0.00"
+                  readOnly={isStockLine}
+                  className="mt-2"
+                />
+                {isStockLine && (
+                  <p className="text-xs text-muted-foreground mt-1">Worked out from stock batch costs</p>
+                )}
+                {errors.cost_price && <p className="text-destructive text-sm mt-1">{errors.cost_price}</p>}
+              </div>
+              <div>
+                <Label>Selling Price ({symbol})</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={currentLine.selling_price}
+                  onChange={(e) => handleLineChange("selling_price", e.target.value)}
+                  placeholder="0.00"
+                  className="mt-2"
+                />
+                {errors.selling_price && <p className="text-destructive text-sm mt-1">{errors.selling_price}</p>}
+              </div>
+            </div>
+            <Button type="button" variant="secondary" onClick={addToCart} className="mt-4">
+              Add to Cart
+            </Button>
+          </div>
+
+          {cart.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="p-3 text-left">Product</th>
+                    <th className="p-3 text-left">Qty</th>
+                    <th className="p-3 text-left">Price</th>
+                    <th className="p-3 text-left">Total</th>
+                    <th className="p-3 text-left"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cart.map((item, index) => (
+                    <tr key={index} className="border-b">
+                      <td className="p-3">{item.product_name}</td>
+                      <td className="p-3">{item.quantity}</td>
+                      <td className="p-3">{formatAmount(item.selling_price)}</td>
+                      <td className="p-3">{formatAmount(item.total)}</td>
+                      <td className="p-3">
+                        <Button type="button" variant="ghost" size="sm" onClick={() => removeFromCart(index)}>
+                          <Trash2 size={16} className="text-destructive" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <Label>Selling Price (₦)</Label>
+              <Label>Discount ({symbol})</Label>
               <Input
                 type="number"
                 step="0.01"
-                min="0.01"
-                value={formData.selling_price}
-                onChange={(e) => handleChange("selling_price", e.target.value)}
+                min="0"
+                value={formData.discount}
+                onChange={(e) => handleChange("discount", e.target.value)}
                 placeholder="0.00"
                 className="mt-2"
               />
-              {errors.selling_price && <p className="text-destructive text-sm mt-1">{errors.selling_price}</p>}
+              {errors.discount && <p className="text-destructive text-sm mt-1">{errors.discount}</p>}
+            </div>
+            <div className="bg-muted p-4 rounded-lg space-y-2">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal:</span>
+                <span className="font-bold">{formatAmount(cartSubtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Discount:</span>
+                <span className="font-bold">-{formatAmount(cartDiscount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total:</span>
+                <span className="font-bold text-primary">{formatAmount(cartSubtotal - cartDiscount)}</span>
+              </div>
             </div>
           </div>
-          <Button type="submit" className="w-full md:w-auto" disabled={loading}>
-            {loading ? "Recording..." : "Record Sale"}
+          <Button type="submit" className="w-full md:w-auto" disabled={loading || cart.length === 0}>
+            {loading ? "Recording..." : "Complete Sale"}
           </Button>
         </form>
       </Card>
@@ -354,11 +674,18 @@ const SalesPage = ({ userId }: SalesPageProps) => {
       <Card className="p-5">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-semibold">📈 Sales Summary</h2>
-          <Button variant="secondary" size="sm" onClick={exportSales}>
-            <Download size={16} className="mr-2" /> Export CSV
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+              <Upload size={16} className="mr-2" /> Import CSV
+            </Button>
+            <ExportMenu onExport={exportSales} />
+          </div>
         </div>
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
+          <div className="bg-muted p-4 rounded-lg text-center">
+            <p className="text-sm text-muted-foreground">Receipts</p>
+            <p className="text-2xl font-bold">{summary.totalReceipts}</p>
+          </div>
           <div className="bg-muted p-4 rounded-lg text-center">
             <p className="text-sm text-muted-foreground">Products</p>
             <p className="text-2xl font-bold">{summary.totalProducts}</p>
@@ -369,23 +696,23 @@ const SalesPage = ({ userId }: SalesPageProps) => {
           </div>
           <div className="bg-muted p-4 rounded-lg text-center">
             <p className="text-sm text-muted-foreground">Total Cost</p>
-            <p className="text-2xl font-bold">₦{summary.totalCost.toFixed(2)}</p>
+            <p className="text-2xl font-bold">{formatAmount(summary.totalCost)}</p>
           </div>
           <div className="bg-muted p-4 rounded-lg text-center">
             <p className="text-sm text-muted-foreground">Total Revenue</p>
-            <p className="text-2xl font-bold">₦{summary.totalRevenue.toFixed(2)}</p>
+            <p className="text-2xl font-bold">{formatAmount(summary.totalRevenue)}</p>
           </div>
           <div className="bg-muted p-4 rounded-lg text-center">
             <p className="text-sm text-muted-foreground">Profit</p>
-            <p className="text-2xl font-bold text-success">₦{summary.totalProfit.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-success">{formatAmount(summary.totalProfit)}</p>
           </div>
           <div className="bg-muted p-4 rounded-lg text-center">
             <p className="text-sm text-muted-foreground">Loss</p>
-            <p className="text-2xl font-bold text-destructive">₦{summary.totalLoss.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-destructive">{formatAmount(summary.totalLoss)}</p>
           </div>
           <div className="bg-gradient-primary p-4 rounded-lg text-center text-primary-foreground">
             <p className="text-sm">Net Result</p>
-            <p className="text-2xl font-bold">₦{summary.netResult.toFixed(2)}</p>
+            <p className="text-2xl font-bold">{formatAmount(summary.netResult)}</p>
           </div>
         </div>
       </Card>
@@ -396,6 +723,7 @@ const SalesPage = ({ userId }: SalesPageProps) => {
           <table className="w-full">
             <thead className="bg-muted">
               <tr>
+                <th className="p-3 text-left">Receipt</th>
                 <th className="p-3 text-left">Date</th>
                 <th className="p-3 text-left">Time</th>
                 <th className="p-3 text-left">Product</th>
@@ -410,22 +738,35 @@ const SalesPage = ({ userId }: SalesPageProps) => {
             <tbody>
               {sales.length === 0 ? (
                 <tr>
-                  <td colSpan={9} className="p-6 text-center text-muted-foreground">
+                  <td colSpan={10} className="p-6 text-center text-muted-foreground">
                     No sales recorded for this period
                   </td>
                 </tr>
               ) : (
                 sales.map((sale) => (
                   <tr key={sale.id} className="border-b hover:bg-muted/50">
+                    <td className="p-3">
+                      {sale.receipt_id ? (
+                        <button
+                          type="button"
+                          onClick={() => setReceiptModalId(sale.receipt_id)}
+                          className="text-primary hover:underline"
+                        >
+                          {sale.receipts?.receipt_number}
+                        </button>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
                     <td className="p-3">{format(new Date(sale.sale_date), "MMM dd, yyyy")}</td>
                     <td className="p-3">{sale.sale_time}</td>
                     <td className="p-3">{sale.product_name}</td>
                     <td className="p-3">{sale.quantity}</td>
-                    <td className="p-3">₦{parseFloat(sale.cost_price).toFixed(2)}</td>
-                    <td className="p-3">₦{parseFloat(sale.selling_price).toFixed(2)}</td>
-                    <td className="p-3">₦{parseFloat(sale.revenue).toFixed(2)}</td>
+                    <td className="p-3">{formatAmount(parseFloat(sale.cost_price))}</td>
+                    <td className="p-3">{formatAmount(parseFloat(sale.selling_price))}</td>
+                    <td className="p-3">{formatAmount(parseFloat(sale.revenue))}</td>
                     <td className={`p-3 font-semibold ${sale.profit_loss >= 0 ? "text-success" : "text-destructive"}`}>
-                      ₦{parseFloat(sale.profit_loss).toFixed(2)}
+                      {formatAmount(parseFloat(sale.profit_loss))}
                     </td>
                     <td className="p-3">
                       <Button variant="destructive" size="sm" onClick={() => handleDelete(sale.id)} disabled={loading}>
@@ -439,6 +780,28 @@ const SalesPage = ({ userId }: SalesPageProps) => {
           </table>
         </div>
       </Card>
+
+      <ReceiptModal
+        userId={userId}
+        isOpen={!!receiptModalId}
+        onClose={() => setReceiptModalId(null)}
+        receiptId={receiptModalId}
+      />
+
+      <BarcodeScanner
+        isOpen={scannerOpen}
+        onClose={() => setScannerOpen(false)}
+        onScan={handleScannedCode}
+        title="Scan Product"
+      />
+
+      <CsvImportWizard
+        isOpen={importOpen}
+        onClose={() => setImportOpen(false)}
+        userId={userId}
+        dataset="sales"
+        onImported={fetchSales}
+      />
     </div>
   );
 };
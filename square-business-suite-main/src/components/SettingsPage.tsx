@@ -5,32 +5,30 @@ import { Label } from "./ui/label";
 import { Input } from "./ui/input";
 import { Card } from "./ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { useTheme } from "next-themes";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { CURRENCIES } from "@/lib/currency";
+import BackupRestore from "./BackupRestore";
 
 interface SettingsPageProps {
   userId: string;
 }
 
-const currencies = [
-  { value: "NGN", label: "NGN (₦)" },
-  { value: "USD", label: "USD ($)" },
-  { value: "EUR", label: "EUR (€)" },
-  { value: "GBP", label: "GBP (£)" },
-  { value: "CAD", label: "CAD ($)" },
-  { value: "AUD", label: "AUD ($)" },
-  { value: "INR", label: "INR (₹)" },
-  { value: "JPY", label: "JPY (¥)" },
-  { value: "CNY", label: "CNY (¥)" },
-  { value: "ZAR", label: "ZAR (R)" },
-  { value: "KES", label: "KES (KSh)" },
-  { value: "GHS", label: "GHS (₵)" },
-];
-
 const SettingsPage = ({ userId }: SettingsPageProps) => {
-  const [settings, setSettings] = useState({ theme: "light", currency: "NGN", profit_margin_goal: 20 });
+  const [settings, setSettings] = useState({
+    theme: "light",
+    currency: "NGN",
+    profit_margin_goal: 20,
+    business_name: "",
+    costing_method: "weighted_average",
+  });
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
+  const [settingsVersion, setSettingsVersion] = useState(0);
   const { toast } = useToast();
+  const { setCurrency } = useCurrency();
+  const { setTheme } = useTheme();
 
   useEffect(() => {
     const fetchSettings = async () => {
@@ -46,7 +44,9 @@ const SettingsPage = ({ userId }: SettingsPageProps) => {
         setSettings({ 
           theme: data.theme || "light", 
           currency: data.currency || "NGN",
-          profit_margin_goal: data.profit_margin_goal ?? 20
+          profit_margin_goal: data.profit_margin_goal ?? 20,
+          business_name: data.business_name || "",
+          costing_method: data.costing_method || "weighted_average"
         });
       } else if (error && error.code !== "PGRST116") {
         // PGRST116 means no rows returned, which is expected for new users
@@ -55,16 +55,9 @@ const SettingsPage = ({ userId }: SettingsPageProps) => {
     };
 
     fetchSettings();
-  }, [userId]);
-
-  const handleSave = async () => {
-    if (!settings.theme || !settings.currency) {
-      toast({ title: "Please select both theme and currency", variant: "destructive" });
-      return;
-    }
+  }, [userId, settingsVersion]);
 
-    setLoading(true);
-    
+  const persistSettings = async (values: Partial<typeof settings>) => {
     // Check if settings exist
     const { data: existingSettings } = await supabase
       .from("user_settings")
@@ -72,26 +65,46 @@ const SettingsPage = ({ userId }: SettingsPageProps) => {
       .eq("user_id", userId)
       .single();
 
-    let error;
     if (existingSettings) {
       // Update existing settings
       const result = await supabase
         .from("user_settings")
-        .update(settings)
+        .update(values)
         .eq("user_id", userId);
-      error = result.error;
-    } else {
-      // Insert new settings
-      const result = await supabase
-        .from("user_settings")
-        .insert({ user_id: userId, ...settings });
-      error = result.error;
+      return result.error;
+    }
+
+    // Insert new settings
+    const result = await supabase
+      .from("user_settings")
+      .insert({ user_id: userId, ...values });
+    return result.error;
+  };
+
+  // The theme applies at once and is saved straight away so other devices pick it up
+  const handleThemeChange = async (theme: string) => {
+    setSettings({ ...settings, theme });
+    setTheme(theme);
+
+    const error = await persistSettings({ theme });
+    if (error) {
+      toast({ title: "Error saving theme", description: error.message, variant: "destructive" });
     }
+  };
 
+  const handleSave = async () => {
+    if (!settings.theme || !settings.currency) {
+      toast({ title: "Please select both theme and currency", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    const error = await persistSettings(settings);
     setLoading(false);
     if (error) {
       toast({ title: "Error saving settings", description: error.message, variant: "destructive" });
     } else {
+      setCurrency(settings.currency);
       toast({ title: "Settings saved successfully!" });
     }
   };
@@ -116,9 +129,23 @@ const SettingsPage = ({ userId }: SettingsPageProps) => {
 
       <Card className="p-5">
         <div className="space-y-6">
+          <div>
+            <Label>Business Name</Label>
+            <Input
+              value={settings.business_name}
+              onChange={(e) => setSettings({ ...settings, business_name: e.target.value })}
+              className="mt-2"
+              placeholder="Enter your business name"
+              maxLength={100}
+            />
+            <p className="text-sm text-muted-foreground mt-1">
+              Printed at the top of sales receipts
+            </p>
+          </div>
+
           <div>
             <Label>Theme</Label>
-            <Select value={settings.theme} onValueChange={(value) => setSettings({ ...settings, theme: value })}>
+            <Select value={settings.theme} onValueChange={handleThemeChange}>
               <SelectTrigger className="mt-2">
                 <SelectValue placeholder="Select theme" />
               </SelectTrigger>
@@ -140,7 +167,7 @@ const SettingsPage = ({ userId }: SettingsPageProps) => {
                 <SelectValue placeholder="Select currency" />
               </SelectTrigger>
               <SelectContent>
-                {currencies.map((currency) => (
+                {CURRENCIES.map((currency) => (
                   <SelectItem key={currency.value} value={currency.value}>
                     {currency.label}
                   </SelectItem>
@@ -165,11 +192,32 @@ const SettingsPage = ({ userId }: SettingsPageProps) => {
             </p>
           </div>
 
+          <div>
+            <Label>Stock Costing Method</Label>
+            <Select
+              value={settings.costing_method}
+              onValueChange={(value) => setSettings({ ...settings, costing_method: value })}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Select costing method" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weighted_average">Weighted Average</SelectItem>
+                <SelectItem value="fifo">FIFO (First In, First Out)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground mt-1">
+              How the cost of goods sold is worked out when restocks arrive at different prices
+            </p>
+          </div>
+
           <Button onClick={handleSave} disabled={loading}>
             {loading ? "Saving..." : "Save Settings"}
           </Button>
         </div>
       </Card>
+
+      <BackupRestore onRestored={() => setSettingsVersion(settingsVersion + 1)} />
     </div>
   );
 };
@@ -0,0 +1,191 @@
+import { useState, useEffect, Fragment } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card } from "./ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { format, startOfMonth, subMonths } from "date-fns";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { exportToCsv } from "@/lib/exportCsv";
+
+interface ShrinkageReportProps {
+  userId: string;
+}
+
+type StockTakeRecord = Tables<"stock_takes"> & {
+  stock_take_lines: Tables<"stock_take_lines">[];
+};
+
+const ShrinkageReport = ({ userId }: ShrinkageReportProps) => {
+  const [stockTakes, setStockTakes] = useState<StockTakeRecord[]>([]);
+  const [startDate, setStartDate] = useState(format(startOfMonth(subMonths(new Date(), 2)), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { currency, formatAmount } = useCurrency();
+
+  const fetchStockTakes = async () => {
+    if (!startDate || !endDate) {
+      toast({ title: "Please select valid date range", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("stock_takes")
+      .select("*, stock_take_lines(*)")
+      .eq("user_id", userId)
+      .gte("counted_at", `${startDate}T00:00:00`)
+      .lte("counted_at", `${endDate}T23:59:59`)
+      .order("counted_at", { ascending: false });
+
+    setLoading(false);
+    if (error) {
+      toast({ title: "Error fetching stock takes", description: error.message, variant: "destructive" });
+    } else {
+      setStockTakes(data || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchStockTakes();
+  }, [userId, startDate, endDate]);
+
+  const allLines = stockTakes.flatMap((take) => take.stock_take_lines.map((line) => ({ take, line })));
+  const shortLines = allLines.filter(({ line }) => line.variance < 0);
+  const unitsLost = shortLines.reduce((sum, { line }) => sum - line.variance, 0);
+  const shrinkageValue = shortLines.reduce((sum, { line }) => sum - Number(line.variance_value), 0);
+  const netVarianceValue = stockTakes.reduce((sum, take) => sum + Number(take.total_variance_value), 0);
+
+  const exportShrinkage = () => {
+    if (allLines.length === 0) {
+      toast({ title: "No stock takes to export", variant: "destructive" });
+      return;
+    }
+    const exportData = allLines.map(({ take, line }) => ({
+      Date: format(new Date(take.counted_at), "yyyy-MM-dd HH:mm"),
+      Reason: take.reason,
+      Product: line.product_name,
+      "System Qty": line.system_quantity,
+      "Counted Qty": line.counted_quantity,
+      Variance: line.variance,
+      [`Cost Price (${currency})`]: line.cost_price,
+      [`Variance Value (${currency})`]: line.variance_value,
+    }));
+    exportToCsv(`shrinkage_${startDate}_to_${endDate}`, exportData);
+    toast({ title: "Shrinkage report exported successfully!" });
+  };
+
+  return (
+    <Card className="p-5">
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
+        <h2 className="text-xl font-semibold">📉 Shrinkage Report</h2>
+        <Button variant="secondary" size="sm" onClick={exportShrinkage}>
+          <Download size={16} className="mr-2" /> Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <Label>From</Label>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-2" />
+        </div>
+        <div>
+          <Label>To</Label>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-2" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="bg-muted p-4 rounded-lg text-center">
+          <p className="text-sm text-muted-foreground">Stock Takes</p>
+          <p className="text-xl font-bold">{stockTakes.length}</p>
+        </div>
+        <div className="bg-muted p-4 rounded-lg text-center">
+          <p className="text-sm text-muted-foreground">Units Short</p>
+          <p className="text-xl font-bold text-destructive">{unitsLost}</p>
+        </div>
+        <div className="bg-muted p-4 rounded-lg text-center">
+          <p className="text-sm text-muted-foreground">Shrinkage Value</p>
+          <p className="text-xl font-bold text-destructive">{formatAmount(shrinkageValue)}</p>
+        </div>
+        <div className="bg-muted p-4 rounded-lg text-center">
+          <p className="text-sm text-muted-foreground">Net Variance Value</p>
+          <p className="text-xl font-bold">{formatAmount(netVarianceValue)}</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="p-3 text-left">Date</th>
+              <th className="p-3 text-left">Reason</th>
+              <th className="p-3 text-right">Products</th>
+              <th className="p-3 text-right">Net Variance</th>
+              <th className="p-3 text-right">Variance Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={5} className="p-6 text-center text-muted-foreground">
+                  Loading stock takes...
+                </td>
+              </tr>
+            ) : stockTakes.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="p-6 text-center text-muted-foreground">
+                  No stock takes for this period
+                </td>
+              </tr>
+            ) : (
+              stockTakes.map((take) => (
+                <Fragment key={take.id}>
+                  <tr
+                    className="border-b hover:bg-muted/50 cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === take.id ? null : take.id)}
+                  >
+                    <td className="p-3 whitespace-nowrap">
+                      <span className="inline-flex items-center gap-1">
+                        {expandedId === take.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        {format(new Date(take.counted_at), "MMM dd, yyyy HH:mm")}
+                      </span>
+                    </td>
+                    <td className="p-3">{take.reason}</td>
+                    <td className="p-3 text-right">{take.stock_take_lines.length}</td>
+                    <td className="p-3 text-right">{take.total_variance}</td>
+                    <td className={`p-3 text-right font-semibold ${take.total_variance_value < 0 ? "text-destructive" : ""}`}>
+                      {formatAmount(Number(take.total_variance_value))}
+                    </td>
+                  </tr>
+                  {expandedId === take.id &&
+                    take.stock_take_lines.map((line) => (
+                      <tr key={line.id} className="border-b bg-muted/30 text-sm">
+                        <td className="p-2 pl-10" colSpan={2}>
+                          {line.product_name}
+                        </td>
+                        <td className="p-2 text-right text-muted-foreground">
+                          {line.system_quantity} → {line.counted_quantity}
+                        </td>
+                        <td className={`p-2 text-right ${line.variance < 0 ? "text-destructive" : line.variance > 0 ? "text-success" : ""}`}>
+                          {line.variance > 0 ? `+${line.variance}` : line.variance}
+                        </td>
+                        <td className="p-2 text-right">{formatAmount(Number(line.variance_value))}</td>
+                      </tr>
+                    ))}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+export default ShrinkageReport;
@@ -0,0 +1,434 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { format, startOfMonth, subMonths } from "date-fns";
+import { jsPDF } from "jspdf";
+import { Download, Mail, MessageCircle, Printer } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+import { escapeHtml } from "@/lib/utils";
+import { buildStatement, Statement, StatementItem, StatementPayment } from "@/lib/statements";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+interface StatementModalProps {
+  userId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  debtor: {
+    id: string;
+    customer_name: string;
+    customer_phone: string;
+    customer_email: string | null;
+  } | null;
+}
+
+const DEFAULT_BUSINESS_NAME = "Square Business";
+
+const displayDate = (value: string) => format(new Date(`${value}T00:00:00`), "MMM dd, yyyy");
+
+const StatementModal = ({ userId, isOpen, onClose, debtor }: StatementModalProps) => {
+  const [fromDate, setFromDate] = useState(format(startOfMonth(subMonths(new Date(), 2)), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [items, setItems] = useState<StatementItem[]>([]);
+  const [payments, setPayments] = useState<StatementPayment[]>([]);
+  const [businessName, setBusinessName] = useState(DEFAULT_BUSINESS_NAME);
+  const [whatsappPhone, setWhatsappPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [sendingEmail, setSendingEmail] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { currency, formatAmount } = useCurrency();
+
+  // The whole history is loaded once; changing the range only recomputes the statement
+  const fetchActivity = async () => {
+    if (!debtor) return;
+
+    setLoading(true);
+    const [itemsResult, paymentsResult, settingsResult] = await Promise.all([
+      supabase
+        .from("debt_items")
+        .select("id, item_date, item_name, quantity, total")
+        .eq("debtor_id", debtor.id),
+      supabase
+        .from("payments")
+        .select("id, payment_date, amount, payment_method, reference")
+        .eq("debtor_id", debtor.id)
+        .is("voided_at", null),
+      supabase.from("user_settings").select("business_name").eq("user_id", userId).maybeSingle(),
+    ]);
+
+    setLoading(false);
+    const error = itemsResult.error || paymentsResult.error;
+    if (error) {
+      toast({ title: "Error fetching statement", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setItems(itemsResult.data || []);
+    setPayments(paymentsResult.data || []);
+    setBusinessName(settingsResult.data?.business_name || DEFAULT_BUSINESS_NAME);
+  };
+
+  useEffect(() => {
+    if (isOpen && debtor) {
+      setWhatsappPhone(debtor.customer_phone);
+      setEmail(debtor.customer_email || "");
+      fetchActivity();
+    }
+  }, [isOpen, debtor?.id]);
+
+  const rangeError = fromDate && toDate && fromDate > toDate ? "From date must be on or before To date" : "";
+  const statement: Statement | null =
+    fromDate && toDate && !rangeError ? buildStatement(items, payments, fromDate, toDate) : null;
+  const period = statement ? `${displayDate(statement.from)} - ${displayDate(statement.to)}` : "";
+  const filename = debtor && statement ? `statement_${debtor.customer_name.replace(/\s+/g, "_")}_${statement.from}_${statement.to}` : "";
+
+  const handlePrint = () => {
+    if (!debtor || !statement) return;
+
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Statement - ${escapeHtml(debtor.customer_name)}</title>
+          <style>
+            body { font-family: Arial, sans-serif; padding: 20px; color: #333; max-width: 800px; margin: 0 auto; }
+            h1 { font-size: 22px; margin: 0 0 5px 0; }
+            h2 { font-size: 16px; margin: 0 0 15px 0; color: #666; font-weight: normal; }
+            .meta { font-size: 13px; margin-bottom: 15px; }
+            table { width: 100%; border-collapse: collapse; margin: 15px 0; font-size: 13px; }
+            th, td { padding: 6px 4px; text-align: left; border-bottom: 1px solid #ddd; }
+            th { background: #f0f0f0; }
+            .right { text-align: right; }
+            .summary td { font-weight: bold; border-top: 2px solid #333; }
+            .footer { font-size: 12px; color: #666; margin-top: 20px; }
+          </style>
+        </head>
+        <body>
+          <h1>${escapeHtml(businessName)}</h1>
+          <h2>Statement of Account</h2>
+          <div class="meta">
+            <div><strong>${escapeHtml(debtor.customer_name)}</strong> · ${escapeHtml(debtor.customer_phone)}</div>
+            <div>Period: ${period}</div>
+          </div>
+          <table>
+            <thead>
+              <tr><th>Date</th><th>Description</th><th class="right">Charges</th><th class="right">Payments</th><th class="right">Balance</th></tr>
+            </thead>
+            <tbody>
+              <tr><td>${displayDate(statement.from)}</td><td>Opening balance</td><td></td><td></td><td class="right">${formatAmount(statement.openingBalance)}</td></tr>
+              ${statement.entries
+                .map(
+                  (entry) =>
+                    `<tr><td>${displayDate(entry.date)}</td><td>${escapeHtml(entry.description)}</td><td class="right">${entry.charge ? formatAmount(entry.charge) : ""}</td><td class="right">${entry.payment ? formatAmount(entry.payment) : ""}</td><td class="right">${formatAmount(entry.balance)}</td></tr>`
+                )
+                .join("")}
+              <tr class="summary"><td>${displayDate(statement.to)}</td><td>Closing balance</td><td class="right">${formatAmount(statement.totalCharges)}</td><td class="right">${formatAmount(statement.totalPayments)}</td><td class="right">${formatAmount(statement.closingBalance)}</td></tr>
+            </tbody>
+          </table>
+          <div class="footer">Generated ${format(new Date(), "MMM dd, yyyy HH:mm")}</div>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+    printWindow.print();
+  };
+
+  const buildPdf = () => {
+    if (!debtor || !statement) return null;
+
+    // Built-in PDF fonts have no glyphs for most currency symbols, so amounts use the currency code
+    const pdfMoney = (amount: number) => formatCurrency(Number(amount), currency, "code");
+    const doc = new jsPDF({ unit: "mm", format: "a4" });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 14;
+    const right = pageWidth - margin;
+    const bottom = pageHeight - margin - 6;
+    const columns = { date: margin, description: margin + 26, charge: right - 64, payment: right - 32, balance: right };
+    let y = 18;
+
+    const drawHeader = () => {
+      doc.setFillColor(235, 235, 235);
+      doc.rect(margin, y - 4, pageWidth - 2 * margin, 6, "F");
+      doc.setFont("helvetica", "bold");
+      doc.text("Date", columns.date + 1, y);
+      doc.text("Description", columns.description, y);
+      doc.text("Charges", columns.charge, y, { align: "right" });
+      doc.text("Payments", columns.payment, y, { align: "right" });
+      doc.text("Balance", columns.balance - 1, y, { align: "right" });
+      doc.setFont("helvetica", "normal");
+      y += 6;
+    };
+
+    const drawRow = (date: string, description: string, charge: string, payment: string, balance: string) => {
+      if (y > bottom) {
+        doc.addPage();
+        y = margin + 4;
+        drawHeader();
+      }
+      doc.text(date, columns.date + 1, y);
+      doc.text(doc.splitTextToSize(description, columns.charge - columns.description - 30)[0], columns.description, y);
+      doc.text(charge, columns.charge, y, { align: "right" });
+      doc.text(payment, columns.payment, y, { align: "right" });
+      doc.text(balance, columns.balance - 1, y, { align: "right" });
+      y += 6;
+    };
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.text(businessName, margin, y);
+    doc.setFontSize(12);
+    doc.text("Statement of Account", right, y, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    y += 8;
+    doc.text(`${debtor.customer_name} · ${debtor.customer_phone}`, margin, y);
+    y += 5;
+    doc.text(`Period: ${period}`, margin, y);
+    y += 10;
+
+    doc.setFontSize(9);
+    drawHeader();
+    drawRow(displayDate(statement.from), "Opening balance", "", "", pdfMoney(statement.openingBalance));
+    statement.entries.forEach((entry) => {
+      drawRow(
+        displayDate(entry.date),
+        entry.description,
+        entry.charge ? pdfMoney(entry.charge) : "",
+        entry.payment ? pdfMoney(entry.payment) : "",
+        pdfMoney(entry.balance)
+      );
+    });
+    doc.line(margin, y - 4, right, y - 4);
+    doc.setFont("helvetica", "bold");
+    drawRow(
+      displayDate(statement.to),
+      "Closing balance",
+      pdfMoney(statement.totalCharges),
+      pdfMoney(statement.totalPayments),
+      pdfMoney(statement.closingBalance)
+    );
+
+    const pageCount = doc.getNumberOfPages();
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.text(`Generated ${format(new Date(), "yyyy-MM-dd HH:mm")}`, margin, pageHeight - margin / 2);
+      doc.text(`Page ${page} of ${pageCount}`, right, pageHeight - margin / 2, { align: "right" });
+    }
+
+    return doc;
+  };
+
+  const handleDownloadPdf = () => {
+    buildPdf()?.save(`${filename}.pdf`);
+  };
+
+  const sendWhatsAppStatement = () => {
+    if (!debtor || !statement) return;
+
+    const lines = statement.entries
+      .map(
+        (entry) =>
+          `${displayDate(entry.date)} ${entry.description}: ${entry.charge ? `+${formatAmount(entry.charge)}` : `-${formatAmount(entry.payment)}`}`
+      )
+      .join("\n");
+    const message = encodeURIComponent(
+      `${businessName}\nStatement of Account\n${debtor.customer_name}\n${period}\n\nOpening balance: ${formatAmount(statement.openingBalance)}\n${lines ? `\n${lines}\n` : ""}\nCharges: ${formatAmount(statement.totalCharges)}\nPayments: ${formatAmount(statement.totalPayments)}\nClosing balance: ${formatAmount(statement.closingBalance)}\n\nThank you!`
+    );
+
+    // Remove any non-numeric characters from phone
+    const phone = whatsappPhone.replace(/\D/g, "");
+    const whatsappUrl = `https://wa.me/${phone}?text=${message}`;
+
+    window.open(whatsappUrl, "_blank");
+    toast({ title: "WhatsApp opened with pre-filled statement" });
+  };
+
+  const sendEmailStatement = async () => {
+    if (!debtor || !statement || !email) return;
+
+    setSendingEmail(true);
+    try {
+      const pdf = buildPdf();
+      const { data, error } = await supabase.functions.invoke("send-statement", {
+        body: {
+          businessName,
+          customerName: debtor.customer_name,
+          customerEmail: email,
+          period,
+          currency,
+          openingBalance: statement.openingBalance,
+          totalCharges: statement.totalCharges,
+          totalPayments: statement.totalPayments,
+          closingBalance: statement.closingBalance,
+          entries: statement.entries.map((entry) => ({ ...entry, date: displayDate(entry.date) })),
+          attachment: pdf ? { filename: `${filename}.pdf`, content: pdf.output("datauristring").split(",")[1] } : undefined,
+        },
+      });
+
+      if (error) throw error;
+
+      if (data?.success) {
+        toast({ title: "Statement emailed successfully!" });
+      } else {
+        throw new Error(data?.error || "Failed to send email");
+      }
+    } catch (error) {
+      console.error("Error sending statement:", error);
+      toast({
+        title: "Failed to send email",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setSendingEmail(false);
+    }
+  };
+
+  if (!debtor) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Statement - {debtor.customer_name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>From</Label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="mt-2" />
+            </div>
+            <div>
+              <Label>To</Label>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="mt-2" />
+            </div>
+          </div>
+          {rangeError && <p className="text-destructive text-sm">{rangeError}</p>}
+
+          {loading || !statement ? (
+            <p className="text-center text-muted-foreground py-4">{loading ? "Loading statement..." : "Choose a date range"}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="bg-muted p-3 rounded-lg text-center">
+                  <p className="text-xs text-muted-foreground">Opening</p>
+                  <p className="font-semibold">{formatAmount(statement.openingBalance)}</p>
+                </div>
+                <div className="bg-muted p-3 rounded-lg text-center">
+                  <p className="text-xs text-muted-foreground">Charges</p>
+                  <p className="font-semibold">{formatAmount(statement.totalCharges)}</p>
+                </div>
+                <div className="bg-muted p-3 rounded-lg text-center">
+                  <p className="text-xs text-muted-foreground">Payments</p>
+                  <p className="font-semibold text-success">{formatAmount(statement.totalPayments)}</p>
+                </div>
+                <div className="bg-muted p-3 rounded-lg text-center">
+                  <p className="text-xs text-muted-foreground">Closing</p>
+                  <p className="font-semibold text-warning">{formatAmount(statement.closingBalance)}</p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto max-h-72 overflow-y-auto border rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="p-2 text-left">Date</th>
+                      <th className="p-2 text-left">Description</th>
+                      <th className="p-2 text-right">Charges</th>
+                      <th className="p-2 text-right">Payments</th>
+                      <th className="p-2 text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-b">
+                      <td className="p-2 whitespace-nowrap">{displayDate(statement.from)}</td>
+                      <td className="p-2 italic">Opening balance</td>
+                      <td className="p-2" />
+                      <td className="p-2" />
+                      <td className="p-2 text-right">{formatAmount(statement.openingBalance)}</td>
+                    </tr>
+                    {statement.entries.map((entry) => (
+                      <tr key={entry.id} className="border-b">
+                        <td className="p-2 whitespace-nowrap">{displayDate(entry.date)}</td>
+                        <td className="p-2">{entry.description}</td>
+                        <td className="p-2 text-right">{entry.charge ? formatAmount(entry.charge) : ""}</td>
+                        <td className="p-2 text-right text-success">{entry.payment ? formatAmount(entry.payment) : ""}</td>
+                        <td className="p-2 text-right">{formatAmount(entry.balance)}</td>
+                      </tr>
+                    ))}
+                    <tr className="font-semibold">
+                      <td className="p-2 whitespace-nowrap">{displayDate(statement.to)}</td>
+                      <td className="p-2">Closing balance</td>
+                      <td className="p-2 text-right">{formatAmount(statement.totalCharges)}</td>
+                      <td className="p-2 text-right">{formatAmount(statement.totalPayments)}</td>
+                      <td className="p-2 text-right">{formatAmount(statement.closingBalance)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              {statement.entries.length === 0 && (
+                <p className="text-center text-sm text-muted-foreground">No activity in this period</p>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <Button variant="outline" onClick={handlePrint}>
+                  <Printer size={16} className="mr-2" /> Print
+                </Button>
+                <Button variant="outline" onClick={handleDownloadPdf}>
+                  <Download size={16} className="mr-2" /> PDF
+                </Button>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Customer WhatsApp Number</Label>
+                  <Input
+                    type="tel"
+                    value={whatsappPhone}
+                    onChange={(e) => setWhatsappPhone(e.target.value)}
+                    placeholder="e.g. 2348012345678"
+                  />
+                  <Button variant="secondary" onClick={sendWhatsAppStatement} disabled={!whatsappPhone} className="w-full">
+                    <MessageCircle size={16} className="mr-2" />
+                    Send via WhatsApp
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label>Customer Email</Label>
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="customer@email.com"
+                  />
+                  <Button variant="secondary" onClick={sendEmailStatement} disabled={sendingEmail || !email} className="w-full">
+                    <Mail size={16} className="mr-2" />
+                    {sendingEmail ? "Sending..." : "Send via Email"}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StatementModal;
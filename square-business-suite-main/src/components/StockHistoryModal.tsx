@@ -0,0 +1,327 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CheckCircle2, Download, AlertTriangle } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { exportToCsv } from "@/lib/exportCsv";
+import { MANUAL_STOCK_MOVEMENT_TYPES, stockMovementLabel } from "@/lib/stockMovements";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+interface StockHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stockItem: Tables<"stock"> | null;
+  onStockChanged: () => void;
+}
+
+type StockMovement = Tables<"stock_movements">;
+
+interface LedgerRow extends StockMovement {
+  balance: number;
+}
+
+const StockHistoryModal = ({ isOpen, onClose, stockItem, onStockChanged }: StockHistoryModalProps) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [adjustment, setAdjustment] = useState({ type: "adjustment", direction: "remove", quantity: "", note: "" });
+  const [adjustError, setAdjustError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchMovements = async () => {
+    if (!stockItem) return;
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("stock_movements")
+      .select("*")
+      .eq("stock_id", stockItem.id)
+      .order("created_at", { ascending: true });
+
+    setLoading(false);
+    if (error) {
+      toast({ title: "Error fetching stock history", description: error.message, variant: "destructive" });
+    } else {
+      setMovements(data || []);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen && stockItem) {
+      fetchMovements();
+      setAdjustment({ type: "adjustment", direction: "remove", quantity: "", note: "" });
+      setAdjustError("");
+    }
+  }, [isOpen, stockItem]);
+
+  // Quantity held before the ledger started: products that existed before movements
+  // were recorded open with whatever they held at the first movement.
+  const ledgerOpening = movements.length > 0
+    ? movements[0].quantity_after - movements[0].quantity_change
+    : stockItem?.quantity ?? 0;
+
+  let runningBalance = ledgerOpening;
+  const ledger: LedgerRow[] = movements.map((movement) => {
+    runningBalance += movement.quantity_change;
+    return { ...movement, balance: runningBalance };
+  });
+  const ledgerClosing = runningBalance;
+  const isReconciled = !!stockItem && ledgerClosing === stockItem.quantity;
+
+  const inRange = (row: LedgerRow) => {
+    const date = format(new Date(row.created_at || ""), "yyyy-MM-dd");
+    return (!startDate || date >= startDate) && (!endDate || date <= endDate);
+  };
+  const rangeRows = ledger.filter(inRange);
+  const beforeRange = startDate
+    ? ledger.filter((row) => format(new Date(row.created_at || ""), "yyyy-MM-dd") < startDate)
+    : [];
+  const openingBalance = beforeRange.length > 0 ? beforeRange[beforeRange.length - 1].balance : ledgerOpening;
+  const totalIn = rangeRows.filter((row) => row.quantity_change > 0).reduce((sum, row) => sum + row.quantity_change, 0);
+  const totalOut = rangeRows.filter((row) => row.quantity_change < 0).reduce((sum, row) => sum - row.quantity_change, 0);
+  const closingBalance = openingBalance + totalIn - totalOut;
+
+  const handleAdjust = async () => {
+    if (!stockItem) return;
+
+    const quantity = parseInt(adjustment.quantity);
+    if (isNaN(quantity) || quantity < 1) {
+      setAdjustError("Quantity must be at least 1");
+      return;
+    }
+    if (adjustment.type !== "receipt" && adjustment.type !== "return" && !adjustment.note.trim()) {
+      setAdjustError("Please give a reason for this change");
+      return;
+    }
+
+    const removes = adjustment.type === "write_off" || (adjustment.type === "adjustment" && adjustment.direction === "remove");
+    setAdjustError("");
+    setSaving(true);
+    const { error } = await supabase.rpc("adjust_stock", {
+      p_stock_id: stockItem.id,
+      p_movement_type: adjustment.type,
+      p_quantity: removes ? -quantity : quantity,
+      p_note: adjustment.note.trim() || null,
+    });
+
+    setSaving(false);
+    if (error) {
+      if (error.message === "insufficient_stock") {
+        toast({ title: "Insufficient stock", description: error.details, variant: "destructive" });
+      } else {
+        toast({ title: "Error recording stock movement", description: error.message, variant: "destructive" });
+      }
+      return;
+    }
+
+    toast({ title: `${stockMovementLabel(adjustment.type)} recorded for ${stockItem.product_name}` });
+    setAdjustment({ ...adjustment, quantity: "", note: "" });
+    fetchMovements();
+    onStockChanged();
+  };
+
+  const exportHistory = () => {
+    if (!stockItem || rangeRows.length === 0) {
+      toast({ title: "No movements to export", variant: "destructive" });
+      return;
+    }
+    const exportData = rangeRows.map((row) => ({
+      Date: format(new Date(row.created_at || ""), "yyyy-MM-dd HH:mm"),
+      Type: stockMovementLabel(row.movement_type),
+      Change: row.quantity_change,
+      Balance: row.balance,
+      Note: row.note || "",
+    }));
+    const slug = stockItem.product_name.toLowerCase().replace(/[^a-z0-9]+/g, "_");
+    exportToCsv(`stock_history_${slug}_${format(new Date(), "yyyy-MM-dd")}`, exportData);
+    toast({ title: "Stock history exported successfully!" });
+  };
+
+  if (!stockItem) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History - {stockItem.product_name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-2" />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-2" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+          <div className="bg-muted p-3 rounded-lg">
+            <p className="text-xs text-muted-foreground">Opening</p>
+            <p className="text-lg font-bold">{openingBalance}</p>
+          </div>
+          <div className="bg-muted p-3 rounded-lg">
+            <p className="text-xs text-muted-foreground">In</p>
+            <p className="text-lg font-bold text-success">+{totalIn}</p>
+          </div>
+          <div className="bg-muted p-3 rounded-lg">
+            <p className="text-xs text-muted-foreground">Out</p>
+            <p className="text-lg font-bold text-destructive">-{totalOut}</p>
+          </div>
+          <div className="bg-muted p-3 rounded-lg">
+            <p className="text-xs text-muted-foreground">Closing</p>
+            <p className="text-lg font-bold">{closingBalance}</p>
+          </div>
+        </div>
+
+        {!loading && (
+          isReconciled ? (
+            <p className="flex items-center gap-2 text-sm text-success">
+              <CheckCircle2 className="w-4 h-4" />
+              Ledger reconciles to the current quantity of {stockItem.quantity}.
+            </p>
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-destructive">
+              <AlertTriangle className="w-4 h-4" />
+              Ledger closes at {ledgerClosing} but the current quantity is {stockItem.quantity}.
+            </p>
+          )
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="secondary" size="sm" onClick={exportHistory}>
+            <Download size={16} className="mr-2" /> Export CSV
+          </Button>
+        </div>
+
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted sticky top-0">
+              <tr>
+                <th className="p-2 text-left">Date</th>
+                <th className="p-2 text-left">Type</th>
+                <th className="p-2 text-right">Change</th>
+                <th className="p-2 text-right">Balance</th>
+                <th className="p-2 text-left">Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-muted-foreground">
+                    Loading history...
+                  </td>
+                </tr>
+              ) : rangeRows.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-muted-foreground">
+                    No stock movements for this period
+                  </td>
+                </tr>
+              ) : (
+                rangeRows.map((row) => (
+                  <tr key={row.id} className="border-b">
+                    <td className="p-2 whitespace-nowrap">{format(new Date(row.created_at || ""), "MMM dd, yyyy HH:mm")}</td>
+                    <td className="p-2">{stockMovementLabel(row.movement_type)}</td>
+                    <td className={`p-2 text-right font-semibold ${row.quantity_change > 0 ? "text-success" : "text-destructive"}`}>
+                      {row.quantity_change > 0 ? `+${row.quantity_change}` : row.quantity_change}
+                    </td>
+                    <td className="p-2 text-right">{row.balance}</td>
+                    <td className="p-2 text-muted-foreground">{row.note || "-"}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <h3 className="font-semibold">Record Stock Movement</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label>Type</Label>
+              <Select value={adjustment.type} onValueChange={(value) => setAdjustment({ ...adjustment, type: value })}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_STOCK_MOVEMENT_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {adjustment.type === "adjustment" && (
+              <div>
+                <Label>Direction</Label>
+                <Select
+                  value={adjustment.direction}
+                  onValueChange={(value) => setAdjustment({ ...adjustment, direction: value })}
+                >
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="add">Add to stock</SelectItem>
+                    <SelectItem value="remove">Remove from stock</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label>Quantity</Label>
+              <Input
+                type="number"
+                min="1"
+                value={adjustment.quantity}
+                onChange={(e) => setAdjustment({ ...adjustment, quantity: e.target.value })}
+                placeholder="Units"
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Reason / Note</Label>
+            <Input
+              value={adjustment.note}
+              onChange={(e) => setAdjustment({ ...adjustment, note: e.target.value })}
+              placeholder="e.g. Damaged in storage"
+              maxLength={200}
+              className="mt-2"
+            />
+          </div>
+          {adjustError && <p className="text-destructive text-sm">{adjustError}</p>}
+          <div className="flex justify-end">
+            <Button onClick={handleAdjust} disabled={saving || !adjustment.quantity}>
+              {saving ? "Saving..." : "Record Movement"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockHistoryModal;
@@ -5,25 +5,52 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Card } from "./ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
 import { format } from "date-fns";
-import { AlertTriangle, Settings, Plus, X } from "lucide-react";
-import { z } from "zod";
+import { AlertTriangle, Settings, Plus, X, Download, Pencil, History, ScanLine, Upload } from "lucide-react";
+import { exportToCsv } from "@/lib/exportCsv";
+import CsvImportWizard from "./CsvImportWizard";
+import { stockSchema } from "@/lib/schemas";
+import { Tables } from "@/integrations/supabase/types";
+import StockHistoryModal from "./StockHistoryModal";
+import ProductDetailsFields, { emptyProductDetails } from "./ProductDetailsFields";
+import { duplicateProductField, productCategory, UNCATEGORISED } from "@/lib/products";
+import StockTake from "./StockTake";
+import ShrinkageReport from "./ShrinkageReport";
+import BarcodeScanner from "./BarcodeScanner";
+import { useBarcodeWedge } from "@/hooks/use-barcode-wedge";
+import { Switch } from "./ui/switch";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
 
 interface StockManagementProps {
   userId: string;
 }
 
-const stockSchema = z.object({
-  product_name: z.string().min(1, "Product name is required").max(100, "Product name too long"),
-  quantity: z.string().refine((val) => parseInt(val) >= 1, "Quantity must be at least 1"),
-  cost_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Cost price must be at least 0.01"),
-});
+// Quantity only changes through restocks, sales and adjustments, never by editing
+const editStockSchema = stockSchema.omit({ quantity: true });
+
+type StockItem = Tables<"stock">;
+
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+// A product's own reorder level wins over the global low stock threshold
+const reorderLevelOf = (item: StockItem, threshold: number): number => item.reorder_level ?? threshold;
+
+// Without a set reorder quantity, suggest topping the product up to twice its reorder level
+const reorderQuantityOf = (item: StockItem, threshold: number): number =>
+  item.reorder_quantity ?? Math.max(reorderLevelOf(item, threshold) * 2 - item.quantity, 1);
 
 const StockManagement = ({ userId }: StockManagementProps) => {
   const [stock, setStock] = useState<any[]>([]);
@@ -32,15 +59,37 @@ const StockManagement = ({ userId }: StockManagementProps) => {
   const [showSettings, setShowSettings] = useState(false);
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [lowStockThreshold, setLowStockThreshold] = useState(10);
+  const [lowStockThreshold, setLowStockThreshold] = useState(DEFAULT_LOW_STOCK_THRESHOLD);
   const [restockItem, setRestockItem] = useState<any>(null);
   const [restockQuantity, setRestockQuantity] = useState("");
+  const [restockNote, setRestockNote] = useState("");
+  const [restockUnitCost, setRestockUnitCost] = useState("");
+  const [historyStockId, setHistoryStockId] = useState<string | null>(null);
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [wedgeEnabled, setWedgeEnabled] = useState(false);
+  const [stockTakeVersion, setStockTakeVersion] = useState(0);
+  const [editItem, setEditItem] = useState<StockItem | null>(null);
+  const [editForm, setEditForm] = useState({
+    product_name: "",
+    cost_price: "",
+    reorder_level: "",
+    reorder_quantity: "",
+    ...emptyProductDetails(),
+    is_active: true,
+  });
+  const [editErrors, setEditErrors] = useState<Record<string, string>>({});
+  const [categoryFilter, setCategoryFilter] = useState("all");
   const [formData, setFormData] = useState({
     product_name: "",
     quantity: "",
     cost_price: "",
+    reorder_level: "",
+    reorder_quantity: "",
+    ...emptyProductDetails(),
   });
+  const [importOpen, setImportOpen] = useState(false);
   const { toast } = useToast();
+  const { currency, formatAmount, symbol } = useCurrency();
 
   const fetchStock = async () => {
     setLoading(true);
@@ -58,9 +107,31 @@ const StockManagement = ({ userId }: StockManagementProps) => {
     }
   };
 
+  const fetchThreshold = async () => {
+    const { data } = await supabase
+      .from("user_settings")
+      .select("low_stock_threshold")
+      .eq("user_id", userId)
+      .maybeSingle();
+    setLowStockThreshold(data?.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD);
+  };
+
+  const saveThreshold = async () => {
+    const { error } = await supabase
+      .from("user_settings")
+      .upsert({ user_id: userId, low_stock_threshold: lowStockThreshold }, { onConflict: "user_id" });
+
+    if (error) {
+      toast({ title: "Error saving threshold", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Low stock threshold saved" });
+    }
+  };
+
   useEffect(() => {
     // Always fetch stock to check for low stock alerts
     fetchStock();
+    fetchThreshold();
   }, [userId]);
 
   useEffect(() => {
@@ -97,14 +168,33 @@ const StockManagement = ({ userId }: StockManagementProps) => {
       product_name: formData.product_name.trim(),
       quantity,
       cost_price: costPrice,
+      reorder_level: formData.reorder_level ? parseInt(formData.reorder_level) : null,
+      reorder_quantity: formData.reorder_quantity ? parseInt(formData.reorder_quantity) : null,
+      sku: formData.sku.trim() || null,
+      barcode: formData.barcode.trim() || null,
+      category: formData.category.trim() || null,
+      unit: formData.unit,
+      selling_price: formData.selling_price ? parseFloat(formData.selling_price) : null,
     });
 
     setLoading(false);
     if (error) {
-      toast({ title: "Error adding stock", description: error.message, variant: "destructive" });
+      if (error.code === "23505") {
+        const duplicate = duplicateProductField(error.message);
+        setErrors({ [duplicate.field]: duplicate.message });
+      } else {
+        toast({ title: "Error adding stock", description: error.message, variant: "destructive" });
+      }
     } else {
       toast({ title: "Stock added successfully!" });
-      setFormData({ product_name: "", quantity: "", cost_price: "" });
+      setFormData({
+        product_name: "",
+        quantity: "",
+        cost_price: "",
+        reorder_level: "",
+        reorder_quantity: "",
+        ...emptyProductDetails(),
+      });
       setShowForm(false);
       fetchStock();
     }
@@ -125,6 +215,25 @@ const StockManagement = ({ userId }: StockManagementProps) => {
     }
   };
 
+  const openRestock = (item: StockItem) => {
+    setRestockItem(item);
+    setRestockQuantity("");
+    setRestockUnitCost(String(item.cost_price));
+  };
+
+  // Deliveries are booked in by scanning the product's barcode or SKU
+  const handleScannedCode = (code: string) => {
+    setScannerOpen(false);
+    const item = stock.find((s) => s.barcode === code) || stock.find((s) => s.sku === code);
+    if (!item) {
+      toast({ title: "No product found", description: `No stock item has barcode or SKU "${code}"`, variant: "destructive" });
+      return;
+    }
+    openRestock(item);
+  };
+
+  useBarcodeWedge(handleScannedCode, wedgeEnabled && !scannerOpen && !restockItem);
+
   const handleRestock = async () => {
     if (!restockItem || !restockQuantity) return;
     
@@ -134,13 +243,21 @@ const StockManagement = ({ userId }: StockManagementProps) => {
       return;
     }
 
+    const unitCost = parseFloat(restockUnitCost);
+    if (isNaN(unitCost) || unitCost < 0.01) {
+      toast({ title: "Unit cost must be at least 0.01", variant: "destructive" });
+      return;
+    }
+
+    // The batch cost feeds the product's weighted average or FIFO cost
     setLoading(true);
-    const newQuantity = restockItem.quantity + addQuantity;
-    
-    const { error } = await supabase
-      .from("stock")
-      .update({ quantity: newQuantity, updated_at: new Date().toISOString() })
-      .eq("id", restockItem.id);
+    const { error } = await supabase.rpc("adjust_stock", {
+      p_stock_id: restockItem.id,
+      p_movement_type: "receipt",
+      p_quantity: addQuantity,
+      p_note: restockNote.trim() || null,
+      p_unit_cost: unitCost,
+    });
 
     setLoading(false);
     if (error) {
@@ -149,22 +266,116 @@ const StockManagement = ({ userId }: StockManagementProps) => {
       toast({ title: `Added ${addQuantity} units to ${restockItem.product_name}` });
       setRestockItem(null);
       setRestockQuantity("");
+      setRestockNote("");
       fetchStock();
     }
   };
 
-  const lowStockItems = stock.filter((item) => item.quantity <= lowStockThreshold && item.quantity > 0);
+  const openEdit = (item: StockItem) => {
+    setEditItem(item);
+    setEditErrors({});
+    setEditForm({
+      product_name: item.product_name,
+      cost_price: String(item.cost_price),
+      reorder_level: item.reorder_level?.toString() ?? "",
+      reorder_quantity: item.reorder_quantity?.toString() ?? "",
+      sku: item.sku ?? "",
+      barcode: item.barcode ?? "",
+      category: item.category ?? "",
+      unit: item.unit,
+      selling_price: item.selling_price?.toString() ?? "",
+      is_active: item.is_active,
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editItem) return;
+
+    const validation = editStockSchema.safeParse(editForm);
+    if (!validation.success) {
+      const newErrors: Record<string, string> = {};
+      validation.error.errors.forEach((err) => {
+        if (err.path[0]) newErrors[err.path[0].toString()] = err.message;
+      });
+      setEditErrors(newErrors);
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await supabase.rpc("update_stock_item", {
+      p_stock_id: editItem.id,
+      p_product_name: editForm.product_name.trim(),
+      p_cost_price: parseFloat(editForm.cost_price),
+      p_reorder_level: editForm.reorder_level ? parseInt(editForm.reorder_level) : undefined,
+      p_reorder_quantity: editForm.reorder_quantity ? parseInt(editForm.reorder_quantity) : undefined,
+      p_sku: editForm.sku,
+      p_barcode: editForm.barcode,
+      p_category: editForm.category,
+      p_unit: editForm.unit,
+      p_selling_price: editForm.selling_price ? parseFloat(editForm.selling_price) : undefined,
+      p_is_active: editForm.is_active,
+    });
+
+    setLoading(false);
+    if (error) {
+      if (error.message === "duplicate_product") {
+        setEditErrors({ product_name: error.details });
+      } else if (error.code === "23505") {
+        const duplicate = duplicateProductField(error.message);
+        setEditErrors({ [duplicate.field]: duplicate.message });
+      } else {
+        toast({ title: "Error updating stock", description: error.message, variant: "destructive" });
+      }
+    } else {
+      toast({ title: `${editForm.product_name.trim()} updated successfully` });
+      setEditItem(null);
+      fetchStock();
+    }
+  };
+
+  const isLowStock = (item: StockItem) => item.quantity > 0 && item.quantity <= reorderLevelOf(item, lowStockThreshold);
+  const lowStockItems = stock.filter(isLowStock);
   const outOfStockItems = stock.filter((item) => item.quantity === 0);
-  const totalStockValue = stock.reduce((sum, item) => sum + item.quantity * parseFloat(item.cost_price), 0);
+  const reorderItems = [...outOfStockItems, ...lowStockItems];
+
+  const exportReorderList = () => {
+    if (reorderItems.length === 0) {
+      toast({ title: "Nothing needs reordering", variant: "destructive" });
+      return;
+    }
+    const exportData = reorderItems.map((item) => {
+      const orderQuantity = reorderQuantityOf(item, lowStockThreshold);
+      return {
+        Product: item.product_name,
+        "Current Qty": item.quantity,
+        "Reorder Level": reorderLevelOf(item, lowStockThreshold),
+        "Order Qty": orderQuantity,
+        [`Cost Price (${currency})`]: item.cost_price,
+        [`Estimated Cost (${currency})`]: (orderQuantity * Number(item.cost_price)).toFixed(2),
+      };
+    });
+    exportToCsv(`reorder_list_${format(new Date(), "yyyy-MM-dd")}`, exportData);
+    toast({ title: `Exported ${reorderItems.length} products to reorder` });
+  };
+  const categories = [...new Set(stock.map((item) => item.category).filter(Boolean))].sort() as string[];
+  const visibleStock = stock.filter(
+    (item) => categoryFilter === "all" || productCategory(item.category) === categoryFilter
+  );
+  const totalStockValue = visibleStock.reduce((sum, item) => sum + item.quantity * parseFloat(item.cost_price), 0);
 
   return (
     <div className="space-y-5">
       {/* Low Stock Alerts */}
       {(lowStockItems.length > 0 || outOfStockItems.length > 0) && (
         <Card className="p-5 border-warning bg-warning/10">
-          <div className="flex items-center gap-2 mb-3">
-            <AlertTriangle className="w-5 h-5 text-warning" />
-            <h3 className="font-semibold text-warning">Stock Alerts</h3>
+          <div className="flex items-center justify-between gap-2 mb-3 flex-wrap">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-warning" />
+              <h3 className="font-semibold text-warning">Stock Alerts</h3>
+            </div>
+            <Button variant="secondary" size="sm" onClick={exportReorderList}>
+              <Download size={16} className="mr-2" /> Reorder List
+            </Button>
           </div>
           
           {outOfStockItems.length > 0 && (
@@ -192,7 +403,7 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                     key={item.id}
                     className="px-2 py-1 bg-warning/20 text-warning text-sm rounded-md"
                   >
-                    {item.product_name} ({item.quantity} left)
+                    {item.product_name} ({item.quantity} left, reorder at {reorderLevelOf(item, lowStockThreshold)})
                   </span>
                 ))}
               </div>
@@ -213,6 +424,16 @@ const StockManagement = ({ userId }: StockManagementProps) => {
             >
               <Settings className="w-4 h-4" />
             </Button>
+            <Button
+              variant={wedgeEnabled ? "default" : "outline"}
+              onClick={() => setWedgeEnabled(!wedgeEnabled)}
+              title="Listen for a USB or Bluetooth barcode scanner"
+            >
+              USB Scanner {wedgeEnabled ? "On" : "Off"}
+            </Button>
+            <Button variant="secondary" onClick={() => setScannerOpen(true)}>
+              <ScanLine className="w-4 h-4 mr-2" /> Scan to Restock
+            </Button>
             <Button 
               variant="secondary" 
               onClick={() => { 
@@ -223,6 +444,9 @@ const StockManagement = ({ userId }: StockManagementProps) => {
             >
               {showTable ? "Hide Stock" : "Show Stock"}
             </Button>
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" /> Import CSV
+            </Button>
             <Button onClick={() => setShowForm(!showForm)}>
               {showForm ? "Cancel" : "Add Stock"}
             </Button>
@@ -239,13 +463,17 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                 min="1"
                 max="100"
                 value={lowStockThreshold}
-                onChange={(e) => setLowStockThreshold(Math.max(1, parseInt(e.target.value) || 10))}
+                onChange={(e) => setLowStockThreshold(Math.max(1, parseInt(e.target.value) || DEFAULT_LOW_STOCK_THRESHOLD))}
                 className="w-24"
               />
               <span className="text-sm text-muted-foreground">units</span>
+              <Button size="sm" onClick={saveThreshold}>
+                Save
+              </Button>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              Products with quantity at or below this threshold will trigger a low stock alert.
+              Products with quantity at or below this threshold will trigger a low stock alert, unless the product
+              has its own reorder level.
             </p>
           </div>
         )}
@@ -277,7 +505,7 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                 {errors.quantity && <p className="text-destructive text-sm mt-1">{errors.quantity}</p>}
               </div>
               <div>
-                <Label>Cost Price (₦) *</Label>
+                <Label>Cost Price ({symbol}) *</Label>
                 <Input
                   type="number"
                   step="0.01"
@@ -289,6 +517,36 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                 />
                 {errors.cost_price && <p className="text-destructive text-sm mt-1">{errors.cost_price}</p>}
               </div>
+              <div>
+                <Label>Reorder Level (Optional)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={formData.reorder_level}
+                  onChange={(e) => handleChange("reorder_level", e.target.value)}
+                  placeholder={`Default: ${lowStockThreshold}`}
+                  className="mt-2"
+                />
+                {errors.reorder_level && <p className="text-destructive text-sm mt-1">{errors.reorder_level}</p>}
+              </div>
+              <div>
+                <Label>Reorder Quantity (Optional)</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={formData.reorder_quantity}
+                  onChange={(e) => handleChange("reorder_quantity", e.target.value)}
+                  placeholder="Units to order"
+                  className="mt-2"
+                />
+                {errors.reorder_quantity && <p className="text-destructive text-sm mt-1">{errors.reorder_quantity}</p>}
+              </div>
+              <ProductDetailsFields
+                values={formData}
+                onChange={handleChange}
+                errors={errors}
+                categories={categories}
+              />
             </div>
             <Button type="submit" disabled={loading}>
               {loading ? "Adding..." : "Add to Stock"}
@@ -296,6 +554,24 @@ const StockManagement = ({ userId }: StockManagementProps) => {
           </form>
         )}
 
+        {showTable && categories.length > 0 && (
+          <div className="mb-3 max-w-xs">
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {[...categories, UNCATEGORISED].map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {category}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {showTable && (
           <div className="overflow-x-auto">
             {loading ? (
@@ -307,7 +583,9 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                 <thead className="bg-muted">
                   <tr>
                     <th className="p-3 text-left">Product</th>
+                    <th className="p-3 text-left">Category</th>
                     <th className="p-3 text-left">Current Qty</th>
+                    <th className="p-3 text-left">Reorder At</th>
                     <th className="p-3 text-left">Cost Price</th>
                     <th className="p-3 text-left">Total Amount</th>
                     <th className="p-3 text-left">Total Sold</th>
@@ -316,13 +594,13 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                   </tr>
                 </thead>
                 <tbody>
-                  {stock.map((item) => (
+                  {visibleStock.map((item) => (
                     <tr
                       key={item.id}
                       className={`border-b hover:bg-muted/50 ${
                         item.quantity === 0
                           ? "bg-destructive/10"
-                          : item.quantity <= lowStockThreshold
+                          : isLowStock(item)
                           ? "bg-warning/10"
                           : ""
                       }`}
@@ -334,15 +612,32 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                             OUT
                           </span>
                         )}
-                        {item.quantity > 0 && item.quantity <= lowStockThreshold && (
+                        {isLowStock(item) && (
                           <span className="ml-2 text-xs px-1.5 py-0.5 bg-warning text-warning-foreground rounded">
                             LOW
                           </span>
                         )}
+                        {!item.is_active && (
+                          <span className="ml-2 text-xs px-1.5 py-0.5 bg-muted-foreground text-background rounded">
+                            INACTIVE
+                          </span>
+                        )}
+                        {(item.sku || item.barcode) && (
+                          <p className="text-xs text-muted-foreground font-normal">
+                            {[item.sku, item.barcode].filter(Boolean).join(" · ")}
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-3">{productCategory(item.category)}</td>
+                      <td className="p-3">
+                        {item.quantity} <span className="text-xs text-muted-foreground">{item.unit}</span>
+                      </td>
+                      <td className="p-3">
+                        {reorderLevelOf(item, lowStockThreshold)}
+                        {item.reorder_level === null && <span className="text-xs text-muted-foreground"> (default)</span>}
                       </td>
-                      <td className="p-3">{item.quantity}</td>
-                      <td className="p-3">₦{parseFloat(item.cost_price).toFixed(2)}</td>
-                      <td className="p-3 font-semibold">₦{(item.quantity * parseFloat(item.cost_price)).toFixed(2)}</td>
+                      <td className="p-3">{formatAmount(parseFloat(item.cost_price))}</td>
+                      <td className="p-3 font-semibold">{formatAmount(item.quantity * parseFloat(item.cost_price))}</td>
                       <td className="p-3">{item.total_sold}</td>
                       <td className="p-3">{format(new Date(item.created_at), "MMM dd, yyyy")}</td>
                       <td className="p-3">
@@ -350,14 +645,29 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                           <Button
                             variant="secondary"
                             size="sm"
-                            onClick={() => {
-                              setRestockItem(item);
-                              setRestockQuantity("");
-                            }}
+                            onClick={() => openRestock(item)}
                             disabled={loading}
                           >
                             <Plus className="w-3 h-3 mr-1" /> Restock
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openEdit(item)}
+                            disabled={loading}
+                            title="Edit product"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setHistoryStockId(item.id)}
+                            disabled={loading}
+                            title="Stock history"
+                          >
+                            <History className="w-3 h-3" />
+                          </Button>
                           <Button variant="destructive" size="sm" onClick={() => handleDelete(item.id)} disabled={loading}>
                             Delete
                           </Button>
@@ -366,8 +676,8 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                     </tr>
                   ))}
                   <tr className="bg-primary/10 font-bold">
-                    <td colSpan={3} className="p-3 text-right">Grand Total:</td>
-                    <td className="p-3 text-lg">₦{totalStockValue.toFixed(2)}</td>
+                    <td colSpan={5} className="p-3 text-right">Grand Total:</td>
+                    <td className="p-3 text-lg">{formatAmount(totalStockValue)}</td>
                     <td colSpan={3}></td>
                   </tr>
                 </tbody>
@@ -377,6 +687,23 @@ const StockManagement = ({ userId }: StockManagementProps) => {
         )}
       </Card>
 
+      <StockTake
+        stock={stock}
+        onCommitted={() => {
+          fetchStock();
+          setStockTakeVersion(stockTakeVersion + 1);
+        }}
+      />
+
+      <ShrinkageReport key={stockTakeVersion} userId={userId} />
+
+      <BarcodeScanner
+        isOpen={scannerOpen}
+        onClose={() => setScannerOpen(false)}
+        onScan={handleScannedCode}
+        title="Scan to Restock"
+      />
+
       {/* Restock Modal */}
       <Dialog open={!!restockItem} onOpenChange={(open) => !open && setRestockItem(null)}>
         <DialogContent>
@@ -398,11 +725,41 @@ const StockManagement = ({ userId }: StockManagementProps) => {
                 className="mt-2"
               />
             </div>
+            <div>
+              <Label>Unit Cost of this Delivery ({symbol})</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={restockUnitCost}
+                onChange={(e) => setRestockUnitCost(e.target.value)}
+                placeholder="0.00"
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Current cost price: {formatAmount(restockItem?.cost_price ?? 0)}
+              </p>
+            </div>
+            <div>
+              <Label>Note (Optional)</Label>
+              <Input
+                value={restockNote}
+                onChange={(e) => setRestockNote(e.target.value)}
+                placeholder="e.g. Supplier invoice number"
+                maxLength={200}
+                className="mt-2"
+              />
+            </div>
             {restockQuantity && parseInt(restockQuantity) > 0 && (
               <p className="text-sm text-muted-foreground">
                 New total: <span className="font-semibold text-primary">
                   {restockItem?.quantity + parseInt(restockQuantity)}
                 </span>
+                {parseFloat(restockUnitCost) > 0 && (
+                  <> · Delivery value: <span className="font-semibold">
+                    {formatAmount(parseInt(restockQuantity) * parseFloat(restockUnitCost))}
+                  </span></>
+                )}
               </p>
             )}
             <div className="flex gap-2 justify-end">
@@ -416,6 +773,114 @@ const StockManagement = ({ userId }: StockManagementProps) => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <StockHistoryModal
+        isOpen={!!historyStockId}
+        onClose={() => setHistoryStockId(null)}
+        stockItem={stock.find((item) => item.id === historyStockId) || null}
+        onStockChanged={fetchStock}
+      />
+
+      {/* Edit Stock Modal */}
+      <Dialog open={!!editItem} onOpenChange={(open) => !open && setEditItem(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit {editItem?.product_name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            <div>
+              <Label>Product Name</Label>
+              <Input
+                value={editForm.product_name}
+                onChange={(e) => setEditForm({ ...editForm, product_name: e.target.value })}
+                maxLength={100}
+                className="mt-2"
+              />
+              {editErrors.product_name && <p className="text-destructive text-sm mt-1">{editErrors.product_name}</p>}
+              <p className="text-xs text-muted-foreground mt-1">Past sales keep the name they were recorded with.</p>
+            </div>
+            <div>
+              <Label>Cost Price ({symbol})</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={editForm.cost_price}
+                onChange={(e) => setEditForm({ ...editForm, cost_price: e.target.value })}
+                className="mt-2"
+              />
+              {editErrors.cost_price && <p className="text-destructive text-sm mt-1">{editErrors.cost_price}</p>}
+              <p className="text-xs text-muted-foreground mt-1">
+                Changing the cost revalues the {editItem?.quantity} units currently in stock.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Reorder Level</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={editForm.reorder_level}
+                  onChange={(e) => setEditForm({ ...editForm, reorder_level: e.target.value })}
+                  placeholder={`Default: ${lowStockThreshold}`}
+                  className="mt-2"
+                />
+                {editErrors.reorder_level && <p className="text-destructive text-sm mt-1">{editErrors.reorder_level}</p>}
+              </div>
+              <div>
+                <Label>Reorder Quantity</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={editForm.reorder_quantity}
+                  onChange={(e) => setEditForm({ ...editForm, reorder_quantity: e.target.value })}
+                  placeholder="Units to order"
+                  className="mt-2"
+                />
+                {editErrors.reorder_quantity && <p className="text-destructive text-sm mt-1">{editErrors.reorder_quantity}</p>}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <ProductDetailsFields
+                values={editForm}
+                onChange={(field, value) => setEditForm({ ...editForm, [field]: value })}
+                errors={editErrors}
+                categories={categories}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label>Active</Label>
+                <p className="text-xs text-muted-foreground">Inactive products cannot be picked for new sales.</p>
+              </div>
+              <Switch
+                checked={editForm.is_active}
+                onCheckedChange={(checked) => setEditForm({ ...editForm, is_active: checked })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave the reorder level empty to use the global low stock threshold, and the reorder quantity empty to
+              suggest topping up to twice the reorder level.
+            </p>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setEditItem(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveEdit} disabled={loading}>
+                {loading ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <CsvImportWizard
+        isOpen={importOpen}
+        onClose={() => setImportOpen(false)}
+        userId={userId}
+        dataset="stock"
+        onImported={fetchStock}
+      />
     </div>
   );
 };
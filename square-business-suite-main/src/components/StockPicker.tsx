@@ -0,0 +1,77 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+
+export interface StockOption {
+  id: string;
+  product_name: string;
+  cost_price: number;
+  quantity: number;
+  selling_price: number | null;
+  unit: string;
+  sku: string | null;
+  barcode: string | null;
+}
+
+interface StockPickerProps {
+  userId: string;
+  value: string;
+  onSelect: (item: StockOption | null) => void;
+  className?: string;
+}
+
+export const CUSTOM_ITEM = "custom";
+
+const StockPicker = ({ userId, value, onSelect, className }: StockPickerProps) => {
+  const [stockItems, setStockItems] = useState<StockOption[]>([]);
+
+  useEffect(() => {
+    const fetchStock = async () => {
+      const { data } = await supabase
+        .from("stock")
+        .select("id, product_name, cost_price, quantity, selling_price, unit, sku, barcode")
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .gt("quantity", 0)
+        .order("product_name");
+      setStockItems(data || []);
+    };
+
+    // Refresh quantities whenever the picker is reset after an item is added
+    if (!value) fetchStock();
+  }, [userId, value]);
+
+  const handleChange = (selected: string) => {
+    if (selected === CUSTOM_ITEM) {
+      onSelect(null);
+      return;
+    }
+    const item = stockItems.find((s) => s.id === selected);
+    if (item) onSelect(item);
+  };
+
+  return (
+    <Select value={value} onValueChange={handleChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select from stock" />
+      </SelectTrigger>
+      <SelectContent>
+        {stockItems.map((item) => (
+          <SelectItem key={item.id} value={item.id}>
+            {item.product_name}
+            {item.sku ? ` [${item.sku}]` : ""} ({item.quantity} {item.unit} in stock)
+          </SelectItem>
+        ))}
+        <SelectItem value={CUSTOM_ITEM}>Other item (not in stock)</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default StockPicker;
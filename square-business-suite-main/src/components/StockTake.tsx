@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card } from "./ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { ClipboardCheck } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+
+interface StockTakeProps {
+  stock: Tables<"stock">[];
+  onCommitted: () => void;
+}
+
+const StockTake = ({ stock, onCommitted }: StockTakeProps) => {
+  const [active, setActive] = useState(false);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState("");
+  const [search, setSearch] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const { formatAmount } = useCurrency();
+
+  const resetSession = () => {
+    setCounts({});
+    setReason("");
+    setSearch("");
+    setErrors({});
+  };
+
+  const handleCancel = () => {
+    if (Object.keys(counts).length > 0 && !confirm("Discard the counts entered in this stock take?")) return;
+    resetSession();
+    setActive(false);
+  };
+
+  const countedLines = stock
+    .filter((item) => counts[item.id] !== undefined && counts[item.id] !== "")
+    .map((item) => {
+      // parseInt would quietly read "2.5" as 2 and "3abc" as 3
+      const value = counts[item.id].trim();
+      const counted = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+      const variance = counted - item.quantity;
+      return { item, counted, variance, value: variance * Number(item.cost_price) };
+    });
+
+  const totalVariance = countedLines.reduce((sum, line) => sum + line.variance, 0);
+  const totalVarianceValue = countedLines.reduce((sum, line) => sum + line.value, 0);
+  const shrinkageValue = countedLines.filter((line) => line.value < 0).reduce((sum, line) => sum - line.value, 0);
+
+  const visibleStock = stock.filter((item) => item.product_name.toLowerCase().includes(search.toLowerCase()));
+
+  const handleCommit = async () => {
+    const newErrors: Record<string, string> = {};
+    if (countedLines.length === 0) newErrors.counts = "Enter the counted quantity for at least one product";
+    if (countedLines.some((line) => isNaN(line.counted))) {
+      newErrors.counts = "Counted quantities must be whole numbers of 0 or more";
+    }
+    if (!reason.trim()) newErrors.reason = "Please give a reason for this stock take";
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    const changed = countedLines.filter((line) => line.variance !== 0).length;
+    if (!confirm(`Commit this stock take? ${changed} product(s) will be adjusted to their counted quantity.`)) return;
+
+    setLoading(true);
+    const { error } = await supabase.rpc("commit_stock_take", {
+      p_reason: reason.trim(),
+      p_counts: countedLines.map((line) => ({ stock_id: line.item.id, counted_quantity: line.counted })),
+    });
+
+    setLoading(false);
+    if (error) {
+      toast({ title: "Error committing stock take", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: `Stock take committed: ${countedLines.length} counted, ${changed} adjusted` });
+    resetSession();
+    setActive(false);
+    onCommitted();
+  };
+
+  return (
+    <Card className="p-5">
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-2">
+        <h2 className="text-xl font-semibold">📋 Stock Take</h2>
+        {active ? (
+          <Button variant="outline" onClick={handleCancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={() => setActive(true)} disabled={stock.length === 0}>
+            <ClipboardCheck size={16} className="mr-2" /> Start Stock Take
+          </Button>
+        )}
+      </div>
+
+      {!active ? (
+        <p className="text-sm text-muted-foreground">
+          Count what is on the shelf, compare it with the system quantity, and adjust stock in one go.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Search Products</Label>
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Filter by product name"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label>Reason *</Label>
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Monthly shelf count"
+                maxLength={200}
+                className="mt-2"
+              />
+              {errors.reason && <p className="text-destructive text-sm mt-1">{errors.reason}</p>}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full">
+              <thead className="bg-muted sticky top-0">
+                <tr>
+                  <th className="p-3 text-left">Product</th>
+                  <th className="p-3 text-right">System Qty</th>
+                  <th className="p-3 text-left">Counted Qty</th>
+                  <th className="p-3 text-right">Variance</th>
+                  <th className="p-3 text-right">Variance Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleStock.map((item) => {
+                  const line = countedLines.find((l) => l.item.id === item.id);
+                  return (
+                    <tr key={item.id} className="border-b hover:bg-muted/50">
+                      <td className="p-3 font-medium">{item.product_name}</td>
+                      <td className="p-3 text-right">{item.quantity}</td>
+                      <td className="p-3">
+                        <Input
+                          type="number"
+                          min="0"
+                          value={counts[item.id] ?? ""}
+                          onChange={(e) => setCounts({ ...counts, [item.id]: e.target.value })}
+                          placeholder="Not counted"
+                          className="w-32"
+                        />
+                      </td>
+                      <td
+                        className={`p-3 text-right font-semibold ${
+                          line && line.variance < 0 ? "text-destructive" : line && line.variance > 0 ? "text-success" : ""
+                        }`}
+                      >
+                        {line && !isNaN(line.variance) ? (line.variance > 0 ? `+${line.variance}` : line.variance) : "-"}
+                      </td>
+                      <td className="p-3 text-right">{line && !isNaN(line.value) ? formatAmount(line.value) : "-"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-muted p-4 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Products Counted</p>
+              <p className="text-xl font-bold">
+                {countedLines.length} / {stock.length}
+              </p>
+            </div>
+            <div className="bg-muted p-4 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Net Variance</p>
+              <p className="text-xl font-bold">{isNaN(totalVariance) ? "-" : totalVariance}</p>
+            </div>
+            <div className="bg-muted p-4 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Shrinkage Value</p>
+              <p className="text-xl font-bold text-destructive">{formatAmount(shrinkageValue)}</p>
+            </div>
+            <div className="bg-muted p-4 rounded-lg text-center">
+              <p className="text-sm text-muted-foreground">Net Variance Value</p>
+              <p className="text-xl font-bold">{formatAmount(totalVarianceValue)}</p>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Products left as "Not counted" are not changed. Variance is checked again against live quantities when committing.
+          </p>
+          {errors.counts && <p className="text-destructive text-sm">{errors.counts}</p>}
+          <div className="flex justify-end">
+            <Button onClick={handleCommit} disabled={loading}>
+              {loading ? "Committing..." : "Commit Stock Take"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default StockTake;
@@ -0,0 +1,37 @@
+import { useEffect } from "react";
+import { useTheme } from "next-themes";
+import { supabase } from "@/integrations/supabase/client";
+
+// Applies the theme saved in user_settings whenever a user signs in, so the
+// choice follows them across devices. Renders nothing.
+const ThemeSync = () => {
+  const { setTheme } = useTheme();
+
+  useEffect(() => {
+    const applySavedTheme = async (userId: string) => {
+      const { data } = await supabase
+        .from("user_settings")
+        .select("theme")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (data?.theme) setTheme(data.theme);
+    };
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session) applySavedTheme(session.user.id);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_IN" && session) {
+        // Defer the query so it does not run inside the auth callback
+        setTimeout(() => applySavedTheme(session.user.id), 0);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [setTheme]);
+
+  return null;
+};
+
+export default ThemeSync;
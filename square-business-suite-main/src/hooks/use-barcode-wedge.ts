@@ -0,0 +1,44 @@
+import * as React from "react";
+
+// USB and Bluetooth scanners in keyboard-wedge mode "type" the code far faster than a person,
+// then press Enter. Keys arriving closer together than this are treated as one scan.
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 6;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function useBarcodeWedge(onScan: (code: string) => void, enabled: boolean) {
+  const onScanRef = React.useRef(onScan);
+  onScanRef.current = onScan;
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Typing into a form field is left alone; scans land there as normal text
+      if (isEditable(event.target)) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,50 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_CURRENCY, currencySymbol, formatCurrency } from "@/lib/currency";
+
+interface CurrencyContextValue {
+  currency: string;
+  symbol: string;
+  formatAmount: (amount: number) => string;
+  setCurrency: (currency: string) => void;
+}
+
+const CurrencyContext = React.createContext<CurrencyContextValue | null>(null);
+
+// Loads the user's configured currency once per session and shares it with every page
+export function CurrencyProvider({ userId, children }: { userId: string; children: React.ReactNode }) {
+  const [currency, setCurrency] = React.useState(DEFAULT_CURRENCY);
+
+  React.useEffect(() => {
+    const fetchCurrency = async () => {
+      const { data } = await supabase
+        .from("user_settings")
+        .select("currency")
+        .eq("user_id", userId)
+        .maybeSingle();
+      setCurrency(data?.currency || DEFAULT_CURRENCY);
+    };
+
+    fetchCurrency();
+  }, [userId]);
+
+  const value = React.useMemo(
+    () => ({
+      currency,
+      symbol: currencySymbol(currency),
+      formatAmount: (amount: number) => formatCurrency(amount, currency),
+      setCurrency,
+    }),
+    [currency]
+  );
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+export function useCurrency() {
+  const context = React.useContext(CurrencyContext);
+  if (!context) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+}
@@ -14,35 +14,77 @@ export type Database = {
   }
   public: {
     Tables: {
+      customers: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          id: string
+          name: string
+          phone: string
+          phone_normalized: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          name: string
+          phone: string
+          phone_normalized?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          name?: string
+          phone?: string
+          phone_normalized?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       debt_items: {
         Row: {
+          cost_price: number | null
           created_at: string | null
           debtor_id: string
+          due_date: string | null
           id: string
           item_date: string
           item_name: string
           quantity: number
           selling_price: number
+          stock_id: string | null
           total: number
         }
         Insert: {
+          cost_price?: number | null
           created_at?: string | null
           debtor_id: string
+          due_date?: string | null
           id?: string
           item_date: string
           item_name: string
           quantity: number
           selling_price: number
+          stock_id?: string | null
           total: number
         }
         Update: {
+          cost_price?: number | null
           created_at?: string | null
           debtor_id?: string
+          due_date?: string | null
           id?: string
           item_date?: string
           item_name?: string
           quantity?: number
           selling_price?: number
+          stock_id?: string | null
           total?: number
         }
         Relationships: [
@@ -53,6 +95,13 @@ export type Database = {
             referencedRelation: "debtors"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "debt_items_stock_id_fkey"
+            columns: ["stock_id"]
+            isOneToOne: false
+            referencedRelation: "stock"
+            referencedColumns: ["id"]
+          },
         ]
       }
       debtors: {
@@ -60,10 +109,14 @@ export type Database = {
           created_at: string | null
           current_balance: number
           customer_email: string | null
+          customer_id: string | null
           customer_name: string
           customer_phone: string
+          due_date: string | null
           grand_total: number
           id: string
+          next_due_date: string | null
+          payment_terms: number | null
           status: string
           total_paid: number
           updated_at: string | null
@@ -71,12 +124,16 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
-          current_balance: number
+          current_balance?: number
           customer_email?: string | null
+          customer_id?: string | null
           customer_name: string
           customer_phone: string
-          grand_total: number
+          due_date?: string | null
+          grand_total?: number
           id?: string
+          next_due_date?: string | null
+          payment_terms?: number | null
           status?: string
           total_paid?: number
           updated_at?: string | null
@@ -86,16 +143,28 @@ export type Database = {
           created_at?: string | null
           current_balance?: number
           customer_email?: string | null
+          customer_id?: string | null
           customer_name?: string
           customer_phone?: string
+          due_date?: string | null
           grand_total?: number
           id?: string
+          next_due_date?: string | null
+          payment_terms?: number | null
           status?: string
           total_paid?: number
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "debtors_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       expenses: {
         Row: {
@@ -130,27 +199,86 @@ export type Database = {
         }
         Relationships: []
       }
+      payment_audit: {
+        Row: {
+          action: string
+          created_at: string | null
+          id: string
+          new_amount: number | null
+          old_amount: number
+          payment_id: string
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          id?: string
+          new_amount?: number | null
+          old_amount: number
+          payment_id: string
+          reason: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          id?: string
+          new_amount?: number | null
+          old_amount?: number
+          payment_id?: string
+          reason?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_audit_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payments: {
         Row: {
           amount: number
           created_at: string | null
           debtor_id: string
           id: string
+          note: string | null
           payment_date: string | null
+          payment_method: string
+          reference: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
         }
         Insert: {
           amount: number
           created_at?: string | null
           debtor_id: string
           id?: string
+          note?: string | null
           payment_date?: string | null
+          payment_method?: string
+          reference?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Update: {
           amount?: number
           created_at?: string | null
           debtor_id?: string
           id?: string
+          note?: string | null
           payment_date?: string | null
+          payment_method?: string
+          reference?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Relationships: [
           {
@@ -183,107 +311,390 @@ export type Database = {
         }
         Relationships: []
       }
+      receipts: {
+        Row: {
+          created_at: string | null
+          customer_id: string | null
+          discount: number
+          id: string
+          payment_method: string
+          receipt_number: string
+          sale_date: string
+          sale_time: string
+          subtotal: number
+          total: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          customer_id?: string | null
+          discount?: number
+          id?: string
+          payment_method?: string
+          receipt_number: string
+          sale_date: string
+          sale_time: string
+          subtotal?: number
+          total?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          customer_id?: string | null
+          discount?: number
+          id?: string
+          payment_method?: string
+          receipt_number?: string
+          sale_date?: string
+          sale_time?: string
+          subtotal?: number
+          total?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipts_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sales: {
         Row: {
           cost_price: number
           created_at: string | null
+          customer_id: string | null
+          discount: number
           id: string
           product_name: string
           profit_loss: number
           quantity: number
+          receipt_id: string | null
           revenue: number
           sale_date: string
           sale_time: string
           selling_price: number
+          stock_id: string | null
           total_cost: number
           user_id: string
         }
         Insert: {
           cost_price: number
           created_at?: string | null
+          customer_id?: string | null
+          discount?: number
           id?: string
           product_name: string
           profit_loss: number
           quantity: number
+          receipt_id?: string | null
           revenue: number
           sale_date: string
           sale_time: string
           selling_price: number
+          stock_id?: string | null
           total_cost: number
           user_id: string
         }
         Update: {
           cost_price?: number
           created_at?: string | null
+          customer_id?: string | null
+          discount?: number
           id?: string
           product_name?: string
           profit_loss?: number
           quantity?: number
+          receipt_id?: string | null
           revenue?: number
           sale_date?: string
           sale_time?: string
           selling_price?: number
+          stock_id?: string | null
           total_cost?: number
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "sales_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_stock_id_fkey"
+            columns: ["stock_id"]
+            isOneToOne: false
+            referencedRelation: "stock"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       stock: {
         Row: {
+          barcode: string | null
+          category: string | null
           cost_price: number
           created_at: string | null
           id: string
+          is_active: boolean
           product_name: string
           quantity: number
+          reorder_level: number | null
+          reorder_quantity: number | null
+          selling_price: number | null
+          sku: string | null
           total_sold: number
+          unit: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          barcode?: string | null
+          category?: string | null
           cost_price: number
           created_at?: string | null
           id?: string
+          is_active?: boolean
           product_name: string
           quantity?: number
+          reorder_level?: number | null
+          reorder_quantity?: number | null
+          selling_price?: number | null
+          sku?: string | null
           total_sold?: number
+          unit?: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          barcode?: string | null
+          category?: string | null
           cost_price?: number
           created_at?: string | null
           id?: string
+          is_active?: boolean
           product_name?: string
           quantity?: number
+          reorder_level?: number | null
+          reorder_quantity?: number | null
+          selling_price?: number | null
+          sku?: string | null
           total_sold?: number
+          unit?: string
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      stock_batches: {
+        Row: {
+          created_at: string | null
+          id: string
+          quantity_received: number
+          quantity_remaining: number
+          received_at: string
+          stock_id: string
+          unit_cost: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          quantity_received: number
+          quantity_remaining: number
+          received_at?: string
+          stock_id: string
+          unit_cost: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          quantity_received?: number
+          quantity_remaining?: number
+          received_at?: string
+          stock_id?: string
+          unit_cost?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_batches_stock_id_fkey"
+            columns: ["stock_id"]
+            isOneToOne: false
+            referencedRelation: "stock"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          created_at: string | null
+          id: string
+          movement_type: string
+          note: string | null
+          quantity_after: number
+          quantity_change: number
+          reference_id: string | null
+          stock_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          movement_type: string
+          note?: string | null
+          quantity_after: number
+          quantity_change: number
+          reference_id?: string | null
+          stock_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          movement_type?: string
+          note?: string | null
+          quantity_after?: number
+          quantity_change?: number
+          reference_id?: string | null
+          stock_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_stock_id_fkey"
+            columns: ["stock_id"]
+            isOneToOne: false
+            referencedRelation: "stock"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_take_lines: {
+        Row: {
+          cost_price: number
+          counted_quantity: number
+          id: string
+          product_name: string
+          stock_id: string | null
+          stock_take_id: string
+          system_quantity: number
+          variance: number
+          variance_value: number
+        }
+        Insert: {
+          cost_price: number
+          counted_quantity: number
+          id?: string
+          product_name: string
+          stock_id?: string | null
+          stock_take_id: string
+          system_quantity: number
+          variance: number
+          variance_value: number
+        }
+        Update: {
+          cost_price?: number
+          counted_quantity?: number
+          id?: string
+          product_name?: string
+          stock_id?: string | null
+          stock_take_id?: string
+          system_quantity?: number
+          variance?: number
+          variance_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_lines_stock_id_fkey"
+            columns: ["stock_id"]
+            isOneToOne: false
+            referencedRelation: "stock"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_lines_stock_take_id_fkey"
+            columns: ["stock_take_id"]
+            isOneToOne: false
+            referencedRelation: "stock_takes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_takes: {
+        Row: {
+          counted_at: string
+          created_at: string | null
+          id: string
+          reason: string
+          total_variance: number
+          total_variance_value: number
+          user_id: string
+        }
+        Insert: {
+          counted_at?: string
+          created_at?: string | null
+          id?: string
+          reason: string
+          total_variance?: number
+          total_variance_value?: number
+          user_id: string
+        }
+        Update: {
+          counted_at?: string
+          created_at?: string | null
+          id?: string
+          reason?: string
+          total_variance?: number
+          total_variance_value?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_settings: {
         Row: {
+          business_name: string | null
+          costing_method: string
           created_at: string | null
           currency: string | null
           id: string
+          low_stock_threshold: number
           profit_margin_goal: number | null
           theme: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          business_name?: string | null
+          costing_method?: string
           created_at?: string | null
           currency?: string | null
           id?: string
+          low_stock_threshold?: number
           profit_margin_goal?: number | null
           theme?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          business_name?: string | null
+          costing_method?: string
           created_at?: string | null
           currency?: string | null
           id?: string
+          low_stock_threshold?: number
           profit_margin_goal?: number | null
           theme?: string | null
           updated_at?: string | null
@@ -293,10 +704,136 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      customer_summaries: {
+        Row: {
+          created_at: string | null
+          credit_total: number | null
+          debt_accounts: number | null
+          email: string | null
+          id: string | null
+          lifetime_purchases: number | null
+          name: string | null
+          outstanding_balance: number | null
+          phone: string | null
+          sales_count: number | null
+          sales_total: number | null
+          total_paid: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      adjust_stock: {
+        Args: {
+          p_movement_type: string
+          p_note?: string
+          p_quantity: number
+          p_stock_id: string
+          p_unit_cost?: number
+        }
+        Returns: number
+      }
+      apply_stock_batch_change: {
+        Args: {
+          p_change: number
+          p_stock_id: string
+          p_unit_cost?: number
+        }
+        Returns: undefined
+      }
+      commit_stock_take: {
+        Args: {
+          p_counts: Json
+          p_reason: string
+        }
+        Returns: string
+      }
+      create_debtor: {
+        Args: {
+          p_customer_email: string
+          p_customer_name: string
+          p_customer_phone: string
+          p_due_date?: string
+          p_initial_payment?: number
+          p_items: Json
+          p_payment_method?: string
+          p_payment_reference?: string
+          p_payment_terms?: number
+        }
+        Returns: string
+      }
+      edit_payment: {
+        Args: {
+          p_amount: number
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      import_debtors: {
+        Args: {
+          p_debtors: Json
+        }
+        Returns: number
+      }
+      record_receipt: {
+        Args: {
+          p_customer_id?: string
+          p_discount?: number
+          p_items: Json
+          p_payment_method?: string
+          p_sale_date: string
+          p_sale_time: string
+        }
+        Returns: string
+      }
+      restore_backup: {
+        Args: {
+          p_backup: Json
+        }
+        Returns: Json
+      }
+      set_stock_movement: {
+        Args: {
+          p_movement_type: string
+          p_note?: string
+          p_reference_id?: string
+          p_unit_cost?: number
+        }
+        Returns: undefined
+      }
+      stock_issue_cost: {
+        Args: {
+          p_quantity: number
+          p_skip?: number
+          p_stock_id: string
+        }
+        Returns: number
+      }
+      update_stock_item: {
+        Args: {
+          p_barcode?: string
+          p_category?: string
+          p_cost_price: number
+          p_is_active?: boolean
+          p_product_name: string
+          p_reorder_level?: number
+          p_reorder_quantity?: number
+          p_selling_price?: number
+          p_sku?: string
+          p_stock_id: string
+          p_unit?: string
+        }
+        Returns: undefined
+      }
+      void_payment: {
+        Args: {
+          p_payment_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
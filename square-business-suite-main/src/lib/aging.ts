@@ -0,0 +1,118 @@
+import { differenceInCalendarDays, format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { effectiveDueDate } from "./paymentTerms";
+
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current" },
+  { key: "1-30", label: "1-30 days" },
+  { key: "31-60", label: "31-60 days" },
+  { key: "61-90", label: "61-90 days" },
+  { key: "90+", label: "90+ days" },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"];
+
+// Age from when each item fell due, or from the date it was given on credit
+export type AgingBasis = "due_date" | "item_date";
+
+export type AgingDebtor = Pick<
+  Tables<"debtors">,
+  "id" | "customer_name" | "customer_phone" | "total_paid" | "due_date" | "payment_terms"
+>;
+
+export type AgingItem = Pick<
+  Tables<"debt_items">,
+  "id" | "debtor_id" | "item_date" | "due_date" | "item_name" | "quantity" | "total" | "created_at"
+>;
+
+export interface OpenItem {
+  id: string;
+  item_name: string;
+  quantity: number;
+  item_date: string;
+  due_date: string | null;
+  open: number;
+  days: number;
+  bucket: AgingBucket;
+}
+
+export interface AgingRow {
+  debtor: AgingDebtor;
+  items: OpenItem[];
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ current: 0, "1-30": 0, "31-60": 0, "61-90": 0, "90+": 0 });
+
+export const agingBucket = (days: number): AgingBucket => {
+  if (days <= 0) return "current";
+  if (days <= 30) return "1-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+};
+
+// Payments settle items in due date order, as in compute_debtor_totals, so what is
+// left open is always the latest credit. Items without a due date age from their item date.
+export const buildAging = (debtors: AgingDebtor[], items: AgingItem[], basis: AgingBasis, today = new Date()) => {
+  const itemsByDebtor = new Map<string, AgingItem[]>();
+  items.forEach((item) => {
+    itemsByDebtor.set(item.debtor_id, [...(itemsByDebtor.get(item.debtor_id) || []), item]);
+  });
+
+  const rows: AgingRow[] = [];
+  debtors.forEach((debtor) => {
+    const dated = (itemsByDebtor.get(debtor.id) || []).map((item) => ({ item, due: effectiveDueDate(item, debtor) }));
+    dated.sort(
+      (a, b) =>
+        (a.due || "9999-12-31").localeCompare(b.due || "9999-12-31") ||
+        a.item.item_date.localeCompare(b.item.item_date) ||
+        (a.item.created_at || "").localeCompare(b.item.created_at || "") ||
+        a.item.id.localeCompare(b.item.id)
+    );
+
+    let unallocated = Number(debtor.total_paid);
+    const openItems: OpenItem[] = [];
+    dated.forEach(({ item, due }) => {
+      const covered = Math.min(Number(item.total), Math.max(unallocated, 0));
+      unallocated -= covered;
+      const open = Number(item.total) - covered;
+      if (open < 0.005) return;
+
+      const from = basis === "due_date" && due ? due : item.item_date;
+      const days = differenceInCalendarDays(today, new Date(`${from}T00:00:00`));
+      openItems.push({
+        id: item.id,
+        item_name: item.item_name,
+        quantity: item.quantity,
+        item_date: item.item_date,
+        due_date: due,
+        open,
+        days,
+        bucket: agingBucket(days),
+      });
+    });
+    if (openItems.length === 0) return;
+
+    const buckets = emptyBuckets();
+    openItems.forEach((item) => {
+      buckets[item.bucket] += item.open;
+    });
+    rows.push({ debtor, items: openItems, buckets, total: openItems.reduce((sum, item) => sum + item.open, 0) });
+  });
+
+  const totals = emptyBuckets();
+  rows.forEach((row) => {
+    AGING_BUCKETS.forEach(({ key }) => {
+      totals[key] += row.buckets[key];
+    });
+  });
+
+  return {
+    asOf: format(today, "yyyy-MM-dd"),
+    rows: rows.sort((a, b) => b.total - a.total),
+    totals,
+    total: rows.reduce((sum, row) => sum + row.total, 0),
+  };
+};
@@ -0,0 +1,158 @@
+import { z } from "zod";
+
+export const BACKUP_APP = "square-business-suite";
+export const BACKUP_VERSION = 1;
+
+// Ordered so that every table comes after the tables it references
+export const BACKUP_TABLES = [
+  "stock",
+  "customers",
+  "receipts",
+  "sales",
+  "debtors",
+  "debt_items",
+  "payments",
+  "expenses",
+  "user_settings",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  stock: "Stock items",
+  customers: "Customers",
+  receipts: "Receipts",
+  sales: "Sales",
+  debtors: "Debtors",
+  debt_items: "Debt items",
+  payments: "Payments",
+  expenses: "Expenses",
+  user_settings: "Settings",
+};
+
+const id = z.string().uuid();
+const optionalId = id.nullable().optional();
+
+// Only the fields a restore depends on are checked; other columns pass through untouched
+const tableSchemas: Record<BackupTable, z.ZodTypeAny> = {
+  stock: z.object({
+    id,
+    product_name: z.string().min(1),
+    quantity: z.number().int().min(0),
+    cost_price: z.number().min(0),
+  }),
+  customers: z.object({ id, name: z.string().min(1), phone: z.string().min(1) }),
+  receipts: z.object({
+    id,
+    receipt_number: z.string().min(1),
+    customer_id: optionalId,
+    sale_date: z.string(),
+    sale_time: z.string(),
+    total: z.number(),
+  }),
+  sales: z.object({
+    id,
+    receipt_id: optionalId,
+    stock_id: optionalId,
+    customer_id: optionalId,
+    product_name: z.string().min(1),
+    quantity: z.number().int(),
+    sale_date: z.string(),
+    revenue: z.number(),
+  }),
+  debtors: z.object({
+    id,
+    customer_id: optionalId,
+    customer_name: z.string().min(1),
+    customer_phone: z.string().min(1),
+  }),
+  debt_items: z.object({
+    id,
+    debtor_id: id,
+    stock_id: optionalId,
+    item_name: z.string().min(1),
+    quantity: z.number().int().min(1),
+    selling_price: z.number(),
+    total: z.number(),
+  }),
+  payments: z.object({ id, debtor_id: id, amount: z.number().positive() }),
+  expenses: z.object({
+    id,
+    expense_date: z.string(),
+    category: z.string().min(1),
+    description: z.string(),
+    amount: z.number(),
+  }),
+  user_settings: z.object({ id }),
+};
+
+export type BackupRow = Record<string, unknown> & { id: string };
+
+export interface Backup {
+  app: string;
+  version: number;
+  exported_at: string;
+  tables: Record<BackupTable, BackupRow[]>;
+}
+
+const envelopeSchema = z.object({
+  app: z.literal(BACKUP_APP, { errorMap: () => ({ message: "This file is not a backup from this app" }) }),
+  version: z.number().int(),
+  exported_at: z.string(),
+  tables: z.record(z.array(z.record(z.unknown()))),
+});
+
+const MAX_REPORTED_ERRORS = 20;
+
+// Check the archive shape, every row's key fields and that references point at rows in the archive
+export const validateBackup = (data: unknown): { backup: Backup | null; errors: string[] } => {
+  const envelope = envelopeSchema.safeParse(data);
+  if (!envelope.success) {
+    return { backup: null, errors: envelope.error.errors.map((err) => `${err.path.join(".") || "file"}: ${err.message}`) };
+  }
+  if (envelope.data.version > BACKUP_VERSION) {
+    return { backup: null, errors: [`This backup was made by a newer version of the app (version ${envelope.data.version})`] };
+  }
+
+  const errors: string[] = [];
+  const tables = {} as Record<BackupTable, BackupRow[]>;
+  BACKUP_TABLES.forEach((table) => {
+    const rows = envelope.data.tables[table] || [];
+    rows.forEach((row, index) => {
+      const validation = tableSchemas[table].safeParse(row);
+      if (!validation.success) {
+        validation.error.errors.forEach((err) => {
+          errors.push(`${BACKUP_TABLE_LABELS[table]} row ${index + 1}: ${err.path.join(".")} ${err.message}`);
+        });
+      }
+    });
+    tables[table] = rows as BackupRow[];
+  });
+
+  const idsOf = (table: BackupTable) => new Set(tables[table].map((row) => row.id));
+  const references: [BackupTable, string, BackupTable][] = [
+    ["receipts", "customer_id", "customers"],
+    ["sales", "receipt_id", "receipts"],
+    ["sales", "stock_id", "stock"],
+    ["sales", "customer_id", "customers"],
+    ["debtors", "customer_id", "customers"],
+    ["debt_items", "debtor_id", "debtors"],
+    ["debt_items", "stock_id", "stock"],
+    ["payments", "debtor_id", "debtors"],
+  ];
+  references.forEach(([table, column, target]) => {
+    const targetIds = idsOf(target);
+    const broken = tables[table].filter((row) => row[column] && !targetIds.has(row[column] as string)).length;
+    if (broken > 0) {
+      errors.push(`${broken} ${BACKUP_TABLE_LABELS[table].toLowerCase()} refer to ${BACKUP_TABLE_LABELS[target].toLowerCase()} missing from the backup`);
+    }
+  });
+
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return { backup: null, errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more`] : errors };
+  }
+
+  const { app, version, exported_at } = envelope.data;
+  return { backup: { app, version, exported_at, tables }, errors: [] };
+};
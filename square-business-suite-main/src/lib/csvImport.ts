@@ -0,0 +1,241 @@
+import { format, isValid, parse } from "date-fns";
+import { z } from "zod";
+import { customerSchema, debtItemSchema, expenseSchema, receiptSchema, saleLineSchema, stockSchema } from "./schemas";
+import { EXPENSE_CATEGORIES } from "./expenses";
+import { PRODUCT_UNITS } from "./products";
+
+export type ImportDataset = "stock" | "sales" | "debtors" | "expenses";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  example: string;
+}
+
+export interface ImportRow {
+  line: number;
+  values: Record<string, string>;
+  errors: string[];
+}
+
+export const IMPORT_DATASETS: Record<ImportDataset, { label: string; hint: string; fields: ImportField[] }> = {
+  stock: {
+    label: "Stock",
+    hint: "One row per product. Quantities are booked in as opening stock.",
+    fields: [
+      { key: "product_name", label: "Product Name", required: true, example: "Rice 50kg" },
+      { key: "quantity", label: "Quantity", required: true, example: "20" },
+      { key: "cost_price", label: "Cost Price", required: true, example: "45.00" },
+      { key: "selling_price", label: "Selling Price", required: false, example: "55.00" },
+      { key: "sku", label: "SKU", required: false, example: "RICE-50KG" },
+      { key: "barcode", label: "Barcode", required: false, example: "5012345678900" },
+      { key: "category", label: "Category", required: false, example: "Groceries" },
+      { key: "unit", label: "Unit", required: false, example: "pcs" },
+      { key: "reorder_level", label: "Reorder Level", required: false, example: "5" },
+      { key: "reorder_quantity", label: "Reorder Quantity", required: false, example: "20" },
+    ],
+  },
+  sales: {
+    label: "Sales",
+    hint: "One row per product sold. Past sales are recorded as history and do not change stock levels.",
+    fields: [
+      { key: "sale_date", label: "Date", required: true, example: "2025-01-31" },
+      { key: "sale_time", label: "Time", required: false, example: "14:30" },
+      { key: "product_name", label: "Product Name", required: true, example: "Rice 50kg" },
+      { key: "quantity", label: "Quantity", required: true, example: "2" },
+      { key: "cost_price", label: "Cost Price", required: true, example: "45.00" },
+      { key: "selling_price", label: "Selling Price", required: true, example: "55.00" },
+      { key: "discount", label: "Discount", required: false, example: "0" },
+    ],
+  },
+  debtors: {
+    label: "Debtors",
+    hint: "One row per item owed. Rows with the same phone number become one debtor.",
+    fields: [
+      { key: "customer_name", label: "Customer Name", required: true, example: "Jane Doe" },
+      { key: "customer_phone", label: "Phone", required: true, example: "0241234567" },
+      { key: "customer_email", label: "Email", required: false, example: "jane@example.com" },
+      { key: "item_date", label: "Date", required: true, example: "2025-01-31" },
+      { key: "due_date", label: "Due Date", required: false, example: "2025-02-28" },
+      { key: "item_name", label: "Item Name", required: true, example: "Rice 50kg" },
+      { key: "quantity", label: "Quantity", required: true, example: "1" },
+      { key: "selling_price", label: "Price", required: true, example: "55.00" },
+      { key: "amount_paid", label: "Amount Paid", required: false, example: "20.00" },
+    ],
+  },
+  expenses: {
+    label: "Expenses",
+    hint: `One row per expense. Category must be one of: ${EXPENSE_CATEGORIES.join(", ")}.`,
+    fields: [
+      { key: "expense_date", label: "Date", required: true, example: "2025-01-31" },
+      { key: "category", label: "Category", required: true, example: "Rent" },
+      { key: "description", label: "Description", required: true, example: "January shop rent" },
+      { key: "amount", label: "Amount", required: true, example: "500.00" },
+    ],
+  },
+};
+
+// RFC 4180 parsing: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/\(.*?\)/g, "").replace(/[^a-z0-9]/g, "");
+
+// Match CSV headers to fields by key or label, ignoring case, spacing and currency suffixes
+export const guessColumnMapping = (headers: string[], fields: ImportField[]) => {
+  const normalised = headers.map(normaliseHeader);
+  return Object.fromEntries(
+    fields.map((field) => {
+      const index = normalised.findIndex(
+        (header) => header === normaliseHeader(field.key) || header === normaliseHeader(field.label)
+      );
+      return [field.key, index];
+    })
+  ) as Record<string, number>;
+};
+
+// Spreadsheets export ISO dates or day-first dates; both are stored as yyyy-MM-dd
+const normaliseDate = (value: string) => {
+  for (const pattern of ["yyyy-MM-dd", "dd/MM/yyyy", "d/M/yyyy", "dd-MM-yyyy", "dd.MM.yyyy"]) {
+    const parsed = parse(value, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, "yyyy-MM-dd");
+  }
+  return null;
+};
+
+const normaliseTime = (value: string) => {
+  for (const pattern of ["HH:mm", "H:mm", "HH:mm:ss", "h:mm a"]) {
+    const parsed = parse(value, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, "HH:mm");
+  }
+  return null;
+};
+
+// Drop a leading currency symbol and thousands separators so "GH₵ 1,200.50" reads as 1200.50.
+// Anything else, such as a decimal comma in "12,5" or "1.234,50", cannot be read safely.
+const normaliseNumber = (value: string) => {
+  const number = value.replace(/^[^\d.,-]+/, "");
+  if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(number)) return number.replace(/,/g, "");
+  return /^-?\d+(\.\d+)?$/.test(number) ? number : null;
+};
+
+const schemaErrors = (schema: z.ZodTypeAny, values: Record<string, string>) => {
+  const validation = schema.safeParse(values);
+  return validation.success ? [] : validation.error.errors.map((err) => err.message);
+};
+
+const NUMBER_FIELDS = [
+  "quantity",
+  "cost_price",
+  "selling_price",
+  "reorder_level",
+  "reorder_quantity",
+  "discount",
+  "amount",
+  "amount_paid",
+];
+
+// Normalise one mapped row and validate it with the same schema the page's form uses
+export const validateImportRow = (dataset: ImportDataset, raw: Record<string, string>) => {
+  const values: Record<string, string> = {};
+  const errors: string[] = [];
+  Object.entries(raw).forEach(([key, value]) => {
+    values[key] = value.trim();
+    if (!NUMBER_FIELDS.includes(key) || !values[key]) return;
+
+    const number = normaliseNumber(values[key]);
+    if (number !== null) {
+      values[key] = number;
+    } else {
+      const label = IMPORT_DATASETS[dataset].fields.find((field) => field.key === key)?.label ?? key;
+      errors.push(`${label} "${values[key]}" is not a valid number`);
+    }
+  });
+
+  const checkDate = (key: string, label: string) => {
+    if (!values[key]) return;
+    const date = normaliseDate(values[key]);
+    if (date) values[key] = date;
+    else errors.push(`${label} "${values[key]}" is not a valid date`);
+  };
+
+  switch (dataset) {
+    case "stock": {
+      const unit = PRODUCT_UNITS.find((u) => u.value === (values.unit || "pcs").toLowerCase());
+      if (unit) values.unit = unit.value;
+      else errors.push(`Unknown unit "${values.unit}"`);
+      errors.push(...schemaErrors(stockSchema, values));
+      break;
+    }
+    case "sales": {
+      checkDate("sale_date", "Date");
+      const time = normaliseTime(values.sale_time || "00:00");
+      if (time) values.sale_time = time;
+      else errors.push(`Time "${values.sale_time}" is not a valid time`);
+      errors.push(...schemaErrors(receiptSchema, values), ...schemaErrors(saleLineSchema, values));
+      if (!errors.length && parseFloat(values.discount || "0") > parseInt(values.quantity) * parseFloat(values.selling_price)) {
+        errors.push("Discount cannot exceed the line total");
+      }
+      break;
+    }
+    case "debtors": {
+      checkDate("item_date", "Date");
+      checkDate("due_date", "Due date");
+      errors.push(...schemaErrors(customerSchema, values), ...schemaErrors(debtItemSchema, values));
+      if (values.due_date && values.item_date && values.due_date < values.item_date) {
+        errors.push("Due date cannot be before the item date");
+      }
+      if (values.amount_paid && parseFloat(values.amount_paid) < 0) errors.push("Amount paid cannot be negative");
+      break;
+    }
+    case "expenses": {
+      checkDate("expense_date", "Date");
+      const category = EXPENSE_CATEGORIES.find((c) => c.toLowerCase() === values.category.toLowerCase());
+      if (category) values.category = category;
+      else if (values.category) errors.push(`Unknown category "${values.category}"`);
+      errors.push(...schemaErrors(expenseSchema, values));
+      break;
+    }
+  }
+
+  return { values, errors };
+};
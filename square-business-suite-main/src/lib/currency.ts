@@ -0,0 +1,47 @@
+export const DEFAULT_CURRENCY = "NGN";
+
+export const CURRENCIES = [
+  { value: "NGN", label: "NGN (₦)" },
+  { value: "USD", label: "USD ($)" },
+  { value: "EUR", label: "EUR (€)" },
+  { value: "GBP", label: "GBP (£)" },
+  { value: "CAD", label: "CAD ($)" },
+  { value: "AUD", label: "AUD ($)" },
+  { value: "INR", label: "INR (₹)" },
+  { value: "JPY", label: "JPY (¥)" },
+  { value: "CNY", label: "CNY (¥)" },
+  { value: "ZAR", label: "ZAR (R)" },
+  { value: "KES", label: "KES (KSh)" },
+  { value: "GHS", label: "GHS (₵)" },
+];
+
+type CurrencyDisplay = "narrowSymbol" | "code";
+
+// Intl.NumberFormat is costly to construct, so keep one per currency and display
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (currency: string, display: CurrencyDisplay) => {
+  const key = `${currency}:${display}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      currencyDisplay: display,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+// "code" renders e.g. "NGN 1,200.00" for places without symbol glyphs such as PDF fonts
+export const formatCurrency = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  display: CurrencyDisplay = "narrowSymbol"
+) => getFormatter(currency, display).format(Number(amount) || 0);
+
+export const currencySymbol = (currency: string = DEFAULT_CURRENCY) =>
+  getFormatter(currency, "narrowSymbol")
+    .formatToParts(0)
+    .find((part) => part.type === "currency")?.value || currency;
@@ -0,0 +1,14 @@
+export const EXPENSE_CATEGORIES = [
+  "Rent",
+  "Utilities",
+  "Salaries",
+  "Inventory",
+  "Transportation",
+  "Marketing",
+  "Equipment",
+  "Supplies",
+  "Maintenance",
+  "Insurance",
+  "Taxes",
+  "Other",
+];
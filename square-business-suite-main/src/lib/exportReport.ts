@@ -0,0 +1,237 @@
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import { exportToCsv } from "./exportCsv";
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+export type ExportCellType = "text" | "integer" | "amount" | "date";
+
+export type ExportRow = Record<string, string | number | null | undefined>;
+
+export interface ExportTable {
+  name: string;
+  title: string;
+  rows: ExportRow[];
+  // Columns not listed are written as text
+  types?: Record<string, ExportCellType>;
+  // Columns summed in the totals row
+  totals?: string[];
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+  { value: "pdf", label: "PDF" },
+];
+
+const NUMBER_FORMATS: Record<ExportCellType, string | undefined> = {
+  text: undefined,
+  integer: "#,##0",
+  amount: "#,##0.00",
+  date: "yyyy-mm-dd",
+};
+
+const columnsOf = (table: ExportTable) => (table.rows.length > 0 ? Object.keys(table.rows[0]) : []);
+
+const columnTotal = (table: ExportTable, column: string) =>
+  table.rows.reduce((sum, row) => sum + (Number(row[column]) || 0), 0);
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Dates are stored as yyyy-MM-dd; a UTC date keeps Excel from shifting the day by the time zone
+const toExcelDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+  return year && month && day ? new Date(Date.UTC(year, month - 1, day)) : value;
+};
+
+const toCellValue = (value: ExportRow[string], type: ExportCellType) => {
+  if (value === null || value === undefined || value === "") return null;
+  if (type === "date") return toExcelDate(String(value));
+  if (type === "integer" || type === "amount") return Number(value);
+  return String(value);
+};
+
+export const exportToXlsx = async (filename: string, tables: ExportTable[]) => {
+  // Loaded on demand so the spreadsheet writer only ships to users who export
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  workbook.created = new Date();
+
+  tables.forEach((table) => {
+    const columns = columnsOf(table);
+    // Excel caps sheet names at 31 characters and forbids a few symbols
+    const sheet = workbook.addWorksheet(table.name.replace(/[\\/?*[\]:]/g, " ").slice(0, 31), {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+
+    sheet.columns = columns.map((column) => {
+      const type = table.types?.[column] ?? "text";
+      const longest = Math.max(column.length, ...table.rows.map((row) => String(row[column] ?? "").length));
+      return {
+        header: column,
+        key: column,
+        width: Math.min(Math.max(longest + 2, 10), 50),
+        style: NUMBER_FORMATS[type] ? { numFmt: NUMBER_FORMATS[type] } : {},
+      };
+    });
+    sheet.getRow(1).font = { bold: true };
+
+    table.rows.forEach((row) => {
+      sheet.addRow(
+        Object.fromEntries(columns.map((column) => [column, toCellValue(row[column], table.types?.[column] ?? "text")]))
+      );
+    });
+
+    if (table.totals?.length && table.rows.length > 0) {
+      const lastDataRow = table.rows.length + 1;
+      const totalsRow = sheet.addRow({});
+      totalsRow.getCell(1).value = "Total";
+      table.totals.forEach((column) => {
+        const cell = totalsRow.getCell(columns.indexOf(column) + 1);
+        const letter = sheet.getColumn(columns.indexOf(column) + 1).letter;
+        cell.value = { formula: `SUM(${letter}2:${letter}${lastDataRow})`, result: columnTotal(table, column) };
+      });
+      totalsRow.font = { bold: true };
+      totalsRow.border = { top: { style: "thin" } };
+    }
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }),
+    `${filename}.xlsx`
+  );
+};
+
+const formatPdfCell = (value: ExportRow[string], type: ExportCellType) => {
+  if (value === null || value === undefined || value === "") return "";
+  if (type === "amount") {
+    return Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+  if (type === "integer") return Number(value).toLocaleString();
+  return String(value);
+};
+
+export const exportToPdf = (filename: string, tables: ExportTable[], subtitle?: string) => {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  const rowHeight = 6;
+  const bottom = pageHeight - margin - 6;
+  let y = margin;
+
+  // Cut text to the column width so long names never run into the next column
+  const fit = (text: string, width: number) => {
+    if (doc.getTextWidth(text) <= width) return text;
+    let cut = text;
+    while (cut.length > 1 && doc.getTextWidth(`${cut}...`) > width) cut = cut.slice(0, -1);
+    return `${cut}...`;
+  };
+
+  tables.forEach((table, tableIndex) => {
+    const columns = columnsOf(table);
+    if (columns.length === 0) return;
+    if (tableIndex > 0) {
+      doc.addPage();
+      y = margin;
+    }
+
+    doc.setFontSize(8);
+    const weights = columns.map((column) =>
+      Math.min(Math.max(column.length, ...table.rows.slice(0, 200).map((row) => String(row[column] ?? "").length)), 40)
+    );
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const widths = weights.map((weight) => ((pageWidth - 2 * margin) * weight) / totalWeight);
+    const lefts = widths.map((_, index) => margin + widths.slice(0, index).reduce((sum, width) => sum + width, 0));
+
+    const drawCells = (cells: string[], bold: boolean) => {
+      doc.setFont("helvetica", bold ? "bold" : "normal");
+      cells.forEach((cell, index) => {
+        const type = table.types?.[columns[index]] ?? "text";
+        const text = fit(cell, widths[index] - 2);
+        if (type === "amount" || type === "integer") {
+          doc.text(text, lefts[index] + widths[index] - 1, y, { align: "right" });
+        } else {
+          doc.text(text, lefts[index] + 1, y);
+        }
+      });
+    };
+
+    const drawHeader = () => {
+      doc.setFillColor(235, 235, 235);
+      doc.rect(margin, y - 4, pageWidth - 2 * margin, rowHeight, "F");
+      drawCells(columns, true);
+      y += rowHeight;
+    };
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(13);
+    doc.text(table.title, margin, y + 2);
+    y += 7;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    const generated = `Generated ${format(new Date(), "yyyy-MM-dd HH:mm")}`;
+    doc.text(subtitle ? `${subtitle} · ${generated}` : generated, margin, y);
+    y += 8;
+    doc.setFontSize(8);
+    drawHeader();
+
+    table.rows.forEach((row) => {
+      if (y > bottom) {
+        doc.addPage();
+        y = margin + 4;
+        drawHeader();
+      }
+      drawCells(
+        columns.map((column) => formatPdfCell(row[column], table.types?.[column] ?? "text")),
+        false
+      );
+      y += rowHeight;
+    });
+
+    if (table.totals?.length && table.rows.length > 0) {
+      if (y > bottom) {
+        doc.addPage();
+        y = margin + 4;
+        drawHeader();
+      }
+      doc.line(margin, y - 4, pageWidth - margin, y - 4);
+      drawCells(
+        columns.map((column, index) => {
+          if (table.totals?.includes(column)) return formatPdfCell(columnTotal(table, column), table.types?.[column] ?? "amount");
+          return index === 0 ? "Total" : "";
+        }),
+        true
+      );
+      y += rowHeight;
+    }
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - margin / 2, { align: "right" });
+  }
+
+  doc.save(`${filename}.pdf`);
+};
+
+// CSV keeps its single-table layout: only the first table is written
+export const exportReport = async (exportFormat: ExportFormat, filename: string, tables: ExportTable[], subtitle?: string) => {
+  if (exportFormat === "csv") exportToCsv(filename, tables[0].rows);
+  else if (exportFormat === "xlsx") await exportToXlsx(filename, tables);
+  else exportToPdf(filename, tables, subtitle);
+};
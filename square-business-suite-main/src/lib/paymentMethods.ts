@@ -0,0 +1,9 @@
+export const PAYMENT_METHODS = [
+  { value: "cash", label: "Cash" },
+  { value: "transfer", label: "Bank Transfer" },
+  { value: "pos", label: "POS" },
+  { value: "mobile_money", label: "Mobile Money" },
+];
+
+export const paymentMethodLabel = (value: string | null | undefined) =>
+  PAYMENT_METHODS.find((method) => method.value === value)?.label || value || "";
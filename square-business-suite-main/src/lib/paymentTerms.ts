@@ -0,0 +1,45 @@
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+
+export const NO_TERMS = "none";
+
+// Net N: each item is due N days after its date
+export const PAYMENT_TERMS = [
+  { value: NO_TERMS, label: "No terms" },
+  { value: "0", label: "Due on receipt" },
+  { value: "7", label: "Net 7" },
+  { value: "14", label: "Net 14" },
+  { value: "30", label: "Net 30" },
+  { value: "60", label: "Net 60" },
+];
+
+export const paymentTermsLabel = (days: number | null | undefined) => {
+  if (days === null || days === undefined) return "";
+  return PAYMENT_TERMS.find((terms) => terms.value === String(days))?.label || `Net ${days}`;
+};
+
+export type DebtStatus = "pending" | "overdue" | "paid";
+
+type DueDebtor = Pick<Tables<"debtors">, "status" | "next_due_date">;
+
+// The database keeps status as pending/paid; overdue depends on today's date so it is worked out on read
+export const debtStatus = (debtor: DueDebtor): DebtStatus => {
+  if (debtor.status === "paid") return "paid";
+  return debtor.next_due_date && debtor.next_due_date < format(new Date(), "yyyy-MM-dd") ? "overdue" : "pending";
+};
+
+export const daysOverdue = (debtor: DueDebtor) =>
+  debtStatus(debtor) === "overdue"
+    ? differenceInCalendarDays(new Date(), new Date(`${debtor.next_due_date}T00:00:00`))
+    : 0;
+
+// Mirrors compute_debtor_totals: the item's own due date, else the account due date, else item date + terms
+export const effectiveDueDate = (
+  item: Pick<Tables<"debt_items">, "item_date" | "due_date">,
+  debtor: Pick<Tables<"debtors">, "due_date" | "payment_terms">
+) => {
+  if (item.due_date) return item.due_date;
+  if (debtor.due_date) return debtor.due_date;
+  if (debtor.payment_terms === null) return null;
+  return format(addDays(new Date(`${item.item_date}T00:00:00`), debtor.payment_terms), "yyyy-MM-dd");
+};
@@ -0,0 +1,25 @@
+export const PRODUCT_UNITS = [
+  { value: "pcs", label: "Pieces" },
+  { value: "kg", label: "Kilograms" },
+  { value: "g", label: "Grams" },
+  { value: "l", label: "Litres" },
+  { value: "ml", label: "Millilitres" },
+  { value: "m", label: "Metres" },
+  { value: "pack", label: "Packs" },
+  { value: "box", label: "Boxes" },
+  { value: "carton", label: "Cartons" },
+  { value: "dozen", label: "Dozens" },
+];
+
+export const UNCATEGORISED = "Uncategorised";
+
+export const productCategory = (category: string | null | undefined) => category?.trim() || UNCATEGORISED;
+
+// Map a unique-index violation on stock to the form field it concerns
+export const duplicateProductField = (message: string) => {
+  if (message.includes("stock_user_id_sku_key")) return { field: "sku", message: "This SKU is already used by another product" };
+  if (message.includes("stock_user_id_barcode_key")) {
+    return { field: "barcode", message: "This barcode is already used by another product" };
+  }
+  return { field: "product_name", message: "A product with this name already exists" };
+};
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// parseInt alone would read "2.5" as 2 and "3abc" as 3
+const isWholeNumber = (val: string) => /^\d+$/.test(val);
+
+export const debtItemSchema = z.object({
+  item_name: z.string().min(1, "Item name is required").max(100, "Item name too long"),
+  quantity: z.string().refine((val) => isWholeNumber(val) && parseInt(val) >= 1, "Quantity must be a whole number of at least 1"),
+  selling_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Price must be at least 0.01"),
+});
+
+export const stockSchema = z.object({
+  product_name: z.string().min(1, "Product name is required").max(100, "Product name too long"),
+  quantity: z.string().refine((val) => isWholeNumber(val) && parseInt(val) >= 1, "Quantity must be a whole number of at least 1"),
+  cost_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Cost price must be at least 0.01"),
+  reorder_level: z.string().refine((val) => !val || isWholeNumber(val), "Reorder level must be a whole number of 0 or more"),
+  reorder_quantity: z.string().refine((val) => !val || (isWholeNumber(val) && parseInt(val) >= 1), "Reorder quantity must be a whole number of at least 1"),
+  sku: z.string().max(50, "SKU too long"),
+  barcode: z.string().max(50, "Barcode too long"),
+  category: z.string().max(50, "Category too long"),
+  unit: z.string().min(1, "Unit is required"),
+  selling_price: z.string().refine((val) => !val || parseFloat(val) >= 0, "Selling price cannot be negative"),
+});
+
+export const receiptSchema = z.object({
+  sale_date: z.string().min(1, "Date is required"),
+  sale_time: z.string().min(1, "Time is required"),
+  discount: z.string().refine((val) => !val || parseFloat(val) >= 0, "Discount cannot be negative"),
+});
+
+export const saleLineSchema = z.object({
+  product_name: z.string().min(1, "Product name is required").max(100, "Product name too long"),
+  quantity: z.string().refine((val) => isWholeNumber(val) && parseInt(val) >= 1, "Quantity must be a whole number of at least 1"),
+  cost_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Cost price must be at least 0.01"),
+  selling_price: z.string().refine((val) => parseFloat(val) >= 0.01, "Selling price must be at least 0.01"),
+});
+
+export const customerSchema = z.object({
+  customer_name: z.string().min(2, "Name must be at least 2 characters").max(100, "Name too long"),
+  customer_phone: z.string().min(10, "Phone number must be at least 10 digits").max(15, "Phone number too long"),
+});
+
+export const expenseSchema = z.object({
+  expense_date: z.string().min(1, "Date is required"),
+  category: z.string().min(1, "Category is required"),
+  description: z.string().min(1, "Description is required").max(200, "Description too long"),
+  amount: z.string().refine((val) => parseFloat(val) >= 0.01, "Amount must be at least 0.01"),
+});
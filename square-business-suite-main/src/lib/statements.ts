@@ -0,0 +1,85 @@
+import { format } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { paymentMethodLabel } from "./paymentMethods";
+
+export type StatementItem = Pick<Tables<"debt_items">, "id" | "item_date" | "item_name" | "quantity" | "total">;
+
+export type StatementPayment = Pick<Tables<"payments">, "id" | "payment_date" | "amount" | "payment_method" | "reference">;
+
+export interface StatementEntry {
+  id: string;
+  date: string;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+export interface Statement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalCharges: number;
+  totalPayments: number;
+  closingBalance: number;
+}
+
+// Payments are stored with a time; statements work on the local calendar day
+const paymentDay = (payment: StatementPayment) => format(new Date(payment.payment_date), "yyyy-MM-dd");
+
+// Build the statement for [from, to] (yyyy-MM-dd, inclusive). Everything dated before
+// `from` is rolled into the opening balance; voided payments must already be excluded.
+export const buildStatement = (
+  items: StatementItem[],
+  payments: StatementPayment[],
+  from: string,
+  to: string
+): Statement => {
+  const openingBalance =
+    items.filter((item) => item.item_date < from).reduce((sum, item) => sum + Number(item.total), 0) -
+    payments.filter((payment) => paymentDay(payment) < from).reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  // Charges sort ahead of payments made on the same day
+  const movements = [
+    ...items
+      .filter((item) => item.item_date >= from && item.item_date <= to)
+      .map((item) => ({
+        id: item.id,
+        date: item.item_date,
+        order: 0,
+        description: `${item.item_name} × ${item.quantity}`,
+        charge: Number(item.total),
+        payment: 0,
+      })),
+    ...payments
+      .filter((payment) => paymentDay(payment) >= from && paymentDay(payment) <= to)
+      .map((payment) => ({
+        id: payment.id,
+        date: paymentDay(payment),
+        order: 1,
+        description: `Payment - ${paymentMethodLabel(payment.payment_method)}${payment.reference ? ` (${payment.reference})` : ""}`,
+        charge: 0,
+        payment: Number(payment.amount),
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.order - b.order);
+
+  let balance = openingBalance;
+  const entries = movements.map(({ id, date, description, charge, payment }) => {
+    balance += charge - payment;
+    return { id, date, description, charge, payment, balance };
+  });
+
+  const totalCharges = entries.reduce((sum, entry) => sum + entry.charge, 0);
+  const totalPayments = entries.reduce((sum, entry) => sum + entry.payment, 0);
+
+  return {
+    from,
+    to,
+    openingBalance,
+    entries,
+    totalCharges,
+    totalPayments,
+    closingBalance: openingBalance + totalCharges - totalPayments,
+  };
+};
@@ -0,0 +1,16 @@
+export const STOCK_MOVEMENT_TYPES = [
+  { value: "receipt", label: "Stock Received" },
+  { value: "sale", label: "Sale" },
+  { value: "credit_sale", label: "Credit Sale" },
+  { value: "adjustment", label: "Adjustment" },
+  { value: "return", label: "Customer Return" },
+  { value: "write_off", label: "Write-off" },
+];
+
+// Movements a user can record by hand; sales are written when the sale is recorded
+export const MANUAL_STOCK_MOVEMENT_TYPES = STOCK_MOVEMENT_TYPES.filter(
+  (type) => !["sale", "credit_sale"].includes(type.value)
+);
+
+export const stockMovementLabel = (value: string | null | undefined) =>
+  STOCK_MOVEMENT_TYPES.find((type) => type.value === value)?.label || value || "";
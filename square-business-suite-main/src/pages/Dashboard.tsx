@@ -8,6 +8,7 @@ import DebtPage from "@/components/DebtPage";
 import SettingsPage from "@/components/SettingsPage";
 import AnalyticsDashboard from "@/components/AnalyticsDashboard";
 import ExpenseTracking from "@/components/ExpenseTracking";
+import { CurrencyProvider } from "@/hooks/use-currency";
 
 const Dashboard = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -52,16 +53,18 @@ const Dashboard = () => {
   if (!user) return null;
 
   return (
-    <div className="min-h-screen bg-background">
-      <Navigation currentPage={currentPage} setCurrentPage={setCurrentPage} user={user} />
-      <div className="container mx-auto py-5 px-4 max-w-7xl">
-        {currentPage === "analytics" && <AnalyticsDashboard userId={user.id} />}
-        {currentPage === "sales" && <SalesPage userId={user.id} />}
-        {currentPage === "expenses" && <ExpenseTracking userId={user.id} />}
-        {currentPage === "debt" && <DebtPage userId={user.id} />}
-        {currentPage === "settings" && <SettingsPage userId={user.id} />}
+    <CurrencyProvider userId={user.id}>
+      <div className="min-h-screen bg-background">
+        <Navigation currentPage={currentPage} setCurrentPage={setCurrentPage} user={user} />
+        <div className="container mx-auto py-5 px-4 max-w-7xl">
+          {currentPage === "analytics" && <AnalyticsDashboard userId={user.id} />}
+          {currentPage === "sales" && <SalesPage userId={user.id} />}
+          {currentPage === "expenses" && <ExpenseTracking userId={user.id} />}
+          {currentPage === "debt" && <DebtPage userId={user.id} />}
+          {currentPage === "settings" && <SettingsPage userId={user.id} />}
+        </div>
       </div>
-    </div>
+    </CurrencyProvider>
   );
 };
 
@@ -7,6 +7,9 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en", { style: "currency", currency, currencyDisplay: "narrowSymbol" }).format(amount);
+
 interface ReminderRequest {
   customerName: string;
   customerEmail: string;
@@ -21,7 +24,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { customerName, customerEmail, outstandingBalance, currency = "₦" }: ReminderRequest = await req.json();
+    const { customerName, customerEmail, outstandingBalance, currency = "NGN" }: ReminderRequest = await req.json();
 
     console.log(`Sending payment reminder to ${customerEmail} for ${customerName}`);
 
@@ -54,7 +57,7 @@ const handler = async (req: Request): Promise<Response> => {
             <div class="content">
               <p>Dear <strong>${customerName}</strong>,</p>
               <p>This is a friendly reminder that you have an outstanding balance with us.</p>
-              <p class="amount">Outstanding Balance: ${currency}${outstandingBalance.toFixed(2)}</p>
+              <p class="amount">Outstanding Balance: ${formatAmount(outstandingBalance, currency)}</p>
               <p>We kindly request you to settle this balance at your earliest convenience.</p>
               <p>If you have already made a payment, please disregard this message.</p>
               <p>Thank you for your prompt attention to this matter.</p>
@@ -77,7 +80,7 @@ const handler = async (req: Request): Promise<Response> => {
       body: JSON.stringify({
         from: "Payment Reminder <onboarding@resend.dev>",
         to: [customerEmail],
-        subject: `Payment Reminder - Outstanding Balance: ${currency}${outstandingBalance.toFixed(2)}`,
+        subject: `Payment Reminder - Outstanding Balance: ${formatAmount(outstandingBalance, currency)}`,
         html: emailHtml,
       }),
     });
@@ -0,0 +1,198 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en", { style: "currency", currency, currencyDisplay: "narrowSymbol" }).format(amount);
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Only the statement PDF built by the app is passed on to Resend
+const checkAttachment = (attachment: { filename: string; content: string }) => {
+  if (typeof attachment.filename !== "string" || !/^[^\\/]+\.pdf$/i.test(attachment.filename)) {
+    throw new Error("Attachment must be a PDF statement");
+  }
+
+  let bytes: string;
+  try {
+    bytes = atob(attachment.content);
+  } catch {
+    throw new Error("Attachment must be a PDF statement");
+  }
+
+  if (!bytes.startsWith("%PDF-")) {
+    throw new Error("Attachment must be a PDF statement");
+  }
+  if (bytes.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error("Attachment is too large");
+  }
+
+  return { filename: attachment.filename, content: attachment.content };
+};
+
+interface StatementEntry {
+  date: string;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+interface StatementRequest {
+  businessName: string;
+  customerName: string;
+  customerEmail: string;
+  period: string;
+  currency?: string;
+  openingBalance: number;
+  totalCharges: number;
+  totalPayments: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+  attachment?: { filename: string; content: string };
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      businessName,
+      customerName,
+      customerEmail,
+      period,
+      currency = "NGN",
+      openingBalance,
+      totalCharges,
+      totalPayments,
+      closingBalance,
+      entries = [],
+      attachment,
+    }: StatementRequest = await req.json();
+
+    console.log(`Sending statement to ${customerEmail} for ${customerName}`);
+
+    if (!customerEmail || !customerName) {
+      throw new Error("Customer name and email are required");
+    }
+
+    if (!RESEND_API_KEY) {
+      throw new Error("RESEND_API_KEY is not configured");
+    }
+
+    const attachments = attachment ? [checkAttachment(attachment)] : undefined;
+
+    const rows = entries
+      .map(
+        (entry) => `
+              <tr>
+                <td>${escapeHtml(entry.date)}</td>
+                <td>${escapeHtml(entry.description)}</td>
+                <td class="right">${entry.charge ? formatAmount(entry.charge, currency) : ""}</td>
+                <td class="right">${entry.payment ? formatAmount(entry.payment, currency) : ""}</td>
+                <td class="right">${formatAmount(entry.balance, currency)}</td>
+              </tr>`
+      )
+      .join("");
+
+    const emailHtml = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 700px; margin: 0 auto; padding: 20px; }
+            .header { background: #1a1a2e; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 8px 8px; }
+            table { width: 100%; border-collapse: collapse; font-size: 13px; margin: 20px 0; }
+            th, td { padding: 6px 4px; text-align: left; border-bottom: 1px solid #ddd; }
+            th { background: #eee; }
+            .right { text-align: right; }
+            .summary td { font-weight: bold; border-top: 2px solid #333; }
+            .amount { font-size: 24px; font-weight: bold; color: #e63946; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Statement of Account</h1>
+              <p>${escapeHtml(businessName)}</p>
+            </div>
+            <div class="content">
+              <p>Dear <strong>${escapeHtml(customerName)}</strong>,</p>
+              <p>Please find below your statement for ${escapeHtml(period)}.</p>
+              <table>
+                <thead>
+                  <tr><th>Date</th><th>Description</th><th class="right">Charges</th><th class="right">Payments</th><th class="right">Balance</th></tr>
+                </thead>
+                <tbody>
+                  <tr><td></td><td>Opening balance</td><td></td><td></td><td class="right">${formatAmount(openingBalance, currency)}</td></tr>
+                  ${rows}
+                  <tr class="summary"><td></td><td>Closing balance</td><td class="right">${formatAmount(totalCharges, currency)}</td><td class="right">${formatAmount(totalPayments, currency)}</td><td class="right">${formatAmount(closingBalance, currency)}</td></tr>
+                </tbody>
+              </table>
+              <p class="amount">Balance Due: ${formatAmount(closingBalance, currency)}</p>
+              <p>If you have any questions about this statement, please get in touch.</p>
+              <p>Best regards,<br>${escapeHtml(businessName)}</p>
+            </div>
+            <div class="footer">
+              <p>This is an automated message. Please do not reply to this email.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${RESEND_API_KEY}`,
+      },
+      body: JSON.stringify({
+        from: "Statements <onboarding@resend.dev>",
+        to: [customerEmail],
+        subject: `Statement of Account - ${period}`,
+        html: emailHtml,
+        attachments,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error("Resend API error:", data);
+      throw new Error(data.message || "Failed to send email");
+    }
+
+    console.log("Statement sent successfully:", data);
+
+    return new Response(JSON.stringify({ success: true, data }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (error) {
+    console.error("Error sending statement:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error instanceof Error ? error.message : String(error) }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
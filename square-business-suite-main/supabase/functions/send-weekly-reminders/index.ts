@@ -10,6 +10,9 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en", { style: "currency", currency, currencyDisplay: "narrowSymbol" }).format(amount);
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -27,7 +30,7 @@ const handler = async (req: Request): Promise<Response> => {
     // Fetch all pending debtors with email addresses
     const { data: debtors, error: fetchError } = await supabase
       .from("debtors")
-      .select("id, customer_name, customer_email, current_balance, user_id")
+      .select("id, customer_name, customer_email, current_balance, next_due_date, user_id")
       .eq("status", "pending")
       .gt("current_balance", 0)
       .not("customer_email", "is", null);
@@ -39,6 +42,14 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Found ${debtors?.length || 0} debtors with pending balances and email addresses`);
 
+    // Each business's reminders use its configured currency
+    const userIds = [...new Set((debtors || []).map((d) => d.user_id))];
+    const { data: settings } = userIds.length
+      ? await supabase.from("user_settings").select("user_id, currency").in("user_id", userIds)
+      : { data: [] };
+    const currencyFor = (userId: string) =>
+      settings?.find((s) => s.user_id === userId)?.currency || "NGN";
+
     const results = {
       total: debtors?.length || 0,
       sent: 0,
@@ -50,6 +61,13 @@ const handler = async (req: Request): Promise<Response> => {
       if (!debtor.customer_email) continue;
 
       try {
+        const balance = formatAmount(parseFloat(debtor.current_balance), currencyFor(debtor.user_id));
+        const today = new Date().toISOString().slice(0, 10);
+        const dueLine = !debtor.next_due_date
+          ? ""
+          : debtor.next_due_date < today
+            ? `<p><strong>Part of this balance has been overdue since ${debtor.next_due_date}.</strong></p>`
+            : `<p>The next payment is due on ${debtor.next_due_date}.</p>`;
         const emailHtml = `
           <!DOCTYPE html>
           <html>
@@ -71,7 +89,8 @@ const handler = async (req: Request): Promise<Response> => {
                 <div class="content">
                   <p>Dear <strong>${debtor.customer_name}</strong>,</p>
                   <p>This is your weekly reminder that you have an outstanding balance with us.</p>
-                  <p class="amount">Outstanding Balance: ₦${parseFloat(debtor.current_balance).toFixed(2)}</p>
+                  <p class="amount">Outstanding Balance: ${balance}</p>
+                  ${dueLine}
                   <p>We kindly request you to settle this balance at your earliest convenience.</p>
                   <p>If you have already made a payment, please disregard this message.</p>
                   <p>Thank you for your prompt attention to this matter.</p>
@@ -94,7 +113,7 @@ const handler = async (req: Request): Promise<Response> => {
           body: JSON.stringify({
             from: "Payment Reminder <onboarding@resend.dev>",
             to: [debtor.customer_email],
-            subject: `Weekly Payment Reminder - Outstanding Balance: ₦${parseFloat(debtor.current_balance).toFixed(2)}`,
+            subject: `Weekly Payment Reminder - Outstanding Balance: ${balance}`,
             html: emailHtml,
           }),
         });
@@ -0,0 +1,60 @@
+-- Record a sale and deduct matching stock in a single transaction.
+-- The stock row is locked so concurrent sales of the same product cannot oversell.
+CREATE OR REPLACE FUNCTION public.record_sale(
+  p_sale_date DATE,
+  p_sale_time TIME,
+  p_product_name TEXT,
+  p_quantity INTEGER,
+  p_cost_price NUMERIC,
+  p_selling_price NUMERIC
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock public.stock%ROWTYPE;
+  v_sale_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE user_id = v_user_id
+    AND product_name ILIKE trim(p_product_name)
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_stock.quantity < p_quantity THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING DETAIL = format('Only %s units available in stock', v_stock.quantity);
+    END IF;
+
+    UPDATE public.stock
+    SET quantity = quantity - p_quantity,
+        total_sold = total_sold + p_quantity,
+        updated_at = now()
+    WHERE id = v_stock.id;
+  END IF;
+
+  INSERT INTO public.sales (
+    user_id, sale_date, sale_time, product_name, quantity,
+    cost_price, selling_price, total_cost, revenue, profit_loss
+  )
+  VALUES (
+    v_user_id, p_sale_date, p_sale_time, trim(p_product_name), p_quantity,
+    p_cost_price, p_selling_price,
+    p_quantity * p_cost_price,
+    p_quantity * p_selling_price,
+    p_quantity * (p_selling_price - p_cost_price)
+  )
+  RETURNING id INTO v_sale_id;
+
+  RETURN v_sale_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,71 @@
+-- Create a debtor together with their items and optional opening payment.
+-- Runs as one transaction so a failed items or payment insert leaves no orphan debtor.
+-- p_items is a JSON array of { item_date, item_name, quantity, selling_price }.
+CREATE OR REPLACE FUNCTION public.create_debtor(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_customer_email TEXT,
+  p_items JSONB,
+  p_initial_payment NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_debtor_id UUID;
+  v_grand_total NUMERIC;
+  v_payment NUMERIC := COALESCE(p_initial_payment, 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  SELECT SUM((item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC)
+  INTO v_grand_total
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_payment < 0 THEN
+    RAISE EXCEPTION 'Payment amount cannot be negative';
+  END IF;
+
+  IF v_payment > v_grand_total THEN
+    RAISE EXCEPTION 'Payment cannot exceed grand total';
+  END IF;
+
+  INSERT INTO public.debtors (
+    user_id, customer_name, customer_phone, customer_email,
+    grand_total, total_paid, current_balance, status
+  )
+  VALUES (
+    v_user_id,
+    trim(p_customer_name),
+    trim(p_customer_phone),
+    NULLIF(trim(p_customer_email), ''),
+    v_grand_total,
+    v_payment,
+    v_grand_total - v_payment,
+    CASE WHEN v_grand_total - v_payment <= 0 THEN 'paid' ELSE 'pending' END
+  )
+  RETURNING id INTO v_debtor_id;
+
+  INSERT INTO public.debt_items (debtor_id, item_date, item_name, quantity, selling_price, total)
+  SELECT
+    v_debtor_id,
+    (item->>'item_date')::DATE,
+    trim(item->>'item_name'),
+    (item->>'quantity')::INTEGER,
+    (item->>'selling_price')::NUMERIC,
+    (item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_payment > 0 THEN
+    INSERT INTO public.payments (debtor_id, amount)
+    VALUES (v_debtor_id, v_payment);
+  END IF;
+
+  RETURN v_debtor_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,137 @@
+-- Debtor totals are derived from the ledger (debt_items and payments) by triggers,
+-- so grand_total, total_paid, current_balance and status always match the ledger
+-- regardless of what a client writes.
+ALTER TABLE public.debtors ALTER COLUMN grand_total SET DEFAULT 0;
+ALTER TABLE public.debtors ALTER COLUMN current_balance SET DEFAULT 0;
+
+-- Recompute a debtor's totals from its items and payments on every insert/update
+CREATE OR REPLACE FUNCTION public.compute_debtor_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(SUM(total), 0) INTO NEW.grand_total
+  FROM public.debt_items
+  WHERE debtor_id = NEW.id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO NEW.total_paid
+  FROM public.payments
+  WHERE debtor_id = NEW.id;
+
+  NEW.current_balance = NEW.grand_total - NEW.total_paid;
+  NEW.status = CASE WHEN NEW.current_balance <= 0 THEN 'paid' ELSE 'pending' END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER compute_debtors_totals
+BEFORE INSERT OR UPDATE ON public.debtors
+FOR EACH ROW
+EXECUTE FUNCTION public.compute_debtor_totals();
+
+-- Touch the owning debtor whenever its ledger changes so the totals are recomputed
+CREATE OR REPLACE FUNCTION public.refresh_debtor_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.debtors SET updated_at = now() WHERE id = OLD.debtor_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.debtors SET updated_at = now() WHERE id = NEW.debtor_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER refresh_debtor_totals_on_debt_items
+AFTER INSERT OR UPDATE OR DELETE ON public.debt_items
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_debtor_totals();
+
+CREATE TRIGGER refresh_debtor_totals_on_payments
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_debtor_totals();
+
+-- Reject payments larger than the balance. The debtor row is locked so two
+-- concurrent payments cannot both pass the check.
+CREATE OR REPLACE FUNCTION public.check_payment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  PERFORM 1 FROM public.debtors WHERE id = NEW.debtor_id FOR UPDATE;
+
+  SELECT
+    (SELECT COALESCE(SUM(total), 0) FROM public.debt_items WHERE debtor_id = NEW.debtor_id)
+    - (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE debtor_id = NEW.debtor_id AND id <> NEW.id)
+  INTO v_balance;
+
+  IF NEW.amount > v_balance THEN
+    RAISE EXCEPTION 'Payment cannot exceed current balance';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_payments_amount
+BEFORE INSERT OR UPDATE OF amount ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.check_payment_amount();
+
+-- Totals are now computed by the triggers above
+CREATE OR REPLACE FUNCTION public.create_debtor(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_customer_email TEXT,
+  p_items JSONB,
+  p_initial_payment NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_debtor_id UUID;
+  v_payment NUMERIC := COALESCE(p_initial_payment, 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF v_payment < 0 THEN
+    RAISE EXCEPTION 'Payment amount cannot be negative';
+  END IF;
+
+  INSERT INTO public.debtors (user_id, customer_name, customer_phone, customer_email)
+  VALUES (v_user_id, trim(p_customer_name), trim(p_customer_phone), NULLIF(trim(p_customer_email), ''))
+  RETURNING id INTO v_debtor_id;
+
+  INSERT INTO public.debt_items (debtor_id, item_date, item_name, quantity, selling_price, total)
+  SELECT
+    v_debtor_id,
+    (item->>'item_date')::DATE,
+    trim(item->>'item_name'),
+    (item->>'quantity')::INTEGER,
+    (item->>'selling_price')::NUMERIC,
+    (item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_payment > 0 THEN
+    INSERT INTO public.payments (debtor_id, amount)
+    VALUES (v_debtor_id, v_payment);
+  END IF;
+
+  RETURN v_debtor_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Bring existing debtors in line with their ledgers
+UPDATE public.debtors SET updated_at = updated_at;
@@ -0,0 +1,202 @@
+-- Reduce a phone number to a comparable key: digits only, keeping the last 10
+-- so "+234 803 123 4567" and "0803 123 4567" match the same customer.
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+  SELECT right(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 10);
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Create customers table
+CREATE TABLE public.customers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  phone_normalized TEXT NOT NULL,
+  email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, phone_normalized)
+);
+
+-- Enable RLS
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own customers"
+ON public.customers FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own customers"
+ON public.customers FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own customers"
+ON public.customers FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own customers"
+ON public.customers FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_customers_updated_at
+BEFORE UPDATE ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the dedup key in sync with the phone number
+CREATE OR REPLACE FUNCTION public.set_customer_phone_normalized()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.phone_normalized = public.normalize_phone(NEW.phone);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_customers_phone_normalized
+BEFORE INSERT OR UPDATE OF phone ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.set_customer_phone_normalized();
+
+-- Link debt accounts and (optionally) sales to a customer
+ALTER TABLE public.debtors ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS debtors_customer_id_idx ON public.debtors(customer_id);
+CREATE INDEX IF NOT EXISTS sales_customer_id_idx ON public.sales(customer_id);
+
+-- Every debtor is attached to the customer with the same normalized phone,
+-- creating the customer on first use
+CREATE OR REPLACE FUNCTION public.link_debtor_customer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.customer_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.customers (user_id, name, phone, email)
+  VALUES (NEW.user_id, NEW.customer_name, NEW.customer_phone, NEW.customer_email)
+  ON CONFLICT (user_id, phone_normalized)
+  DO UPDATE SET email = COALESCE(public.customers.email, EXCLUDED.email)
+  RETURNING id INTO NEW.customer_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER link_debtors_customer
+BEFORE INSERT OR UPDATE OF customer_phone ON public.debtors
+FOR EACH ROW
+EXECUTE FUNCTION public.link_debtor_customer();
+
+-- Backfill customers from existing debtors, using the most recent name per phone
+INSERT INTO public.customers (user_id, name, phone, email)
+SELECT DISTINCT ON (user_id, public.normalize_phone(customer_phone))
+  user_id, customer_name, customer_phone, customer_email
+FROM public.debtors
+ORDER BY user_id, public.normalize_phone(customer_phone), created_at DESC
+ON CONFLICT (user_id, phone_normalized) DO NOTHING;
+
+UPDATE public.debtors d
+SET customer_id = c.id
+FROM public.customers c
+WHERE c.user_id = d.user_id
+  AND c.phone_normalized = public.normalize_phone(d.customer_phone)
+  AND d.customer_id IS NULL;
+
+-- Per-customer lifetime figures across debt accounts and cash sales
+CREATE OR REPLACE VIEW public.customer_summaries
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.user_id,
+  c.name,
+  c.phone,
+  c.email,
+  c.created_at,
+  COALESCE(d.debt_accounts, 0) AS debt_accounts,
+  COALESCE(d.credit_total, 0) AS credit_total,
+  COALESCE(d.total_paid, 0) AS total_paid,
+  COALESCE(d.outstanding_balance, 0) AS outstanding_balance,
+  COALESCE(s.sales_count, 0) AS sales_count,
+  COALESCE(s.sales_total, 0) AS sales_total,
+  COALESCE(d.credit_total, 0) + COALESCE(s.sales_total, 0) AS lifetime_purchases
+FROM public.customers c
+LEFT JOIN (
+  SELECT
+    customer_id,
+    COUNT(*) AS debt_accounts,
+    SUM(grand_total) AS credit_total,
+    SUM(total_paid) AS total_paid,
+    SUM(current_balance) AS outstanding_balance
+  FROM public.debtors
+  GROUP BY customer_id
+) d ON d.customer_id = c.id
+LEFT JOIN (
+  SELECT customer_id, COUNT(*) AS sales_count, SUM(revenue) AS sales_total
+  FROM public.sales
+  GROUP BY customer_id
+) s ON s.customer_id = c.id;
+
+-- record_sale gains an optional customer
+DROP FUNCTION IF EXISTS public.record_sale(DATE, TIME, TEXT, INTEGER, NUMERIC, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.record_sale(
+  p_sale_date DATE,
+  p_sale_time TIME,
+  p_product_name TEXT,
+  p_quantity INTEGER,
+  p_cost_price NUMERIC,
+  p_selling_price NUMERIC,
+  p_customer_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock public.stock%ROWTYPE;
+  v_sale_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE user_id = v_user_id
+    AND product_name ILIKE trim(p_product_name)
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_stock.quantity < p_quantity THEN
+      RAISE EXCEPTION 'insufficient_stock'
+        USING DETAIL = format('Only %s units available in stock', v_stock.quantity);
+    END IF;
+
+    UPDATE public.stock
+    SET quantity = quantity - p_quantity,
+        total_sold = total_sold + p_quantity,
+        updated_at = now()
+    WHERE id = v_stock.id;
+  END IF;
+
+  INSERT INTO public.sales (
+    user_id, customer_id, sale_date, sale_time, product_name, quantity,
+    cost_price, selling_price, total_cost, revenue, profit_loss
+  )
+  VALUES (
+    v_user_id, p_customer_id, p_sale_date, p_sale_time, trim(p_product_name), p_quantity,
+    p_cost_price, p_selling_price,
+    p_quantity * p_cost_price,
+    p_quantity * p_selling_price,
+    p_quantity * (p_selling_price - p_cost_price)
+  )
+  RETURNING id INTO v_sale_id;
+
+  RETURN v_sale_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,97 @@
+-- Link debt items to stock so goods given on credit leave inventory
+ALTER TABLE public.debt_items ADD COLUMN IF NOT EXISTS stock_id UUID REFERENCES public.stock(id) ON DELETE SET NULL;
+ALTER TABLE public.debt_items ADD COLUMN IF NOT EXISTS cost_price DECIMAL(10, 2);
+
+CREATE INDEX IF NOT EXISTS debt_items_stock_id_idx ON public.debt_items(stock_id);
+
+-- Deduct stock for stock-linked debt items, locking the stock row so concurrent
+-- cash and credit sales cannot oversell. The item captures the stock cost price.
+CREATE OR REPLACE FUNCTION public.deduct_debt_item_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF NEW.stock_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = NEW.stock_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  IF v_stock.quantity < NEW.quantity THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+  END IF;
+
+  UPDATE public.stock
+  SET quantity = quantity - NEW.quantity,
+      total_sold = total_sold + NEW.quantity,
+      updated_at = now()
+  WHERE id = v_stock.id;
+
+  NEW.item_name = v_stock.product_name;
+  NEW.cost_price = COALESCE(NEW.cost_price, v_stock.cost_price);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER deduct_debt_items_stock
+BEFORE INSERT ON public.debt_items
+FOR EACH ROW
+EXECUTE FUNCTION public.deduct_debt_item_stock();
+
+-- Pass stock_id through when creating a debtor
+CREATE OR REPLACE FUNCTION public.create_debtor(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_customer_email TEXT,
+  p_items JSONB,
+  p_initial_payment NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_debtor_id UUID;
+  v_payment NUMERIC := COALESCE(p_initial_payment, 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF v_payment < 0 THEN
+    RAISE EXCEPTION 'Payment amount cannot be negative';
+  END IF;
+
+  INSERT INTO public.debtors (user_id, customer_name, customer_phone, customer_email)
+  VALUES (v_user_id, trim(p_customer_name), trim(p_customer_phone), NULLIF(trim(p_customer_email), ''))
+  RETURNING id INTO v_debtor_id;
+
+  INSERT INTO public.debt_items (debtor_id, stock_id, item_date, item_name, quantity, selling_price, total)
+  SELECT
+    v_debtor_id,
+    NULLIF(item->>'stock_id', '')::UUID,
+    (item->>'item_date')::DATE,
+    trim(item->>'item_name'),
+    (item->>'quantity')::INTEGER,
+    (item->>'selling_price')::NUMERIC,
+    (item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_payment > 0 THEN
+    INSERT INTO public.payments (debtor_id, amount)
+    VALUES (v_debtor_id, v_payment);
+  END IF;
+
+  RETURN v_debtor_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,206 @@
+-- Create receipts table: one header per basket, with the sales rows as its lines
+CREATE TABLE public.receipts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  receipt_number TEXT NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  payment_method TEXT NOT NULL DEFAULT 'cash',
+  sale_date DATE NOT NULL,
+  sale_time TIME NOT NULL,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, receipt_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own receipts"
+ON public.receipts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own receipts"
+ON public.receipts FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own receipts"
+ON public.receipts FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own receipts"
+ON public.receipts FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Sales rows become receipt lines; discount is the line's share of the receipt discount
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS receipt_id UUID REFERENCES public.receipts(id) ON DELETE CASCADE;
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS discount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS sales_receipt_id_idx ON public.sales(receipt_id);
+
+-- Record a whole basket in one transaction: receipt header, one sales row per line,
+-- and stock deduction for every line that matches a stock item.
+-- p_items is a JSON array of { product_name, quantity, cost_price, selling_price }.
+CREATE OR REPLACE FUNCTION public.record_receipt(
+  p_sale_date DATE,
+  p_sale_time TIME,
+  p_items JSONB,
+  p_customer_id UUID DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_discount NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_receipt_id UUID;
+  v_receipt_number TEXT;
+  v_subtotal NUMERIC;
+  v_discount NUMERIC := COALESCE(p_discount, 0);
+  v_discount_left NUMERIC;
+  v_line_count INTEGER;
+  v_index INTEGER := 0;
+  v_item JSONB;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_cost_price NUMERIC;
+  v_selling_price NUMERIC;
+  v_line_total NUMERIC;
+  v_line_discount NUMERIC;
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  v_line_count := jsonb_array_length(p_items);
+
+  SELECT SUM((item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the basket subtotal';
+  END IF;
+
+  -- Receipt numbers run sequentially per user; the advisory lock serialises concurrent checkouts
+  PERFORM pg_advisory_xact_lock(hashtext('receipt_number:' || v_user_id::TEXT));
+
+  SELECT 'RCP-' || lpad((COALESCE(MAX(substring(receipt_number FROM 5)::INTEGER), 0) + 1)::TEXT, 6, '0')
+  INTO v_receipt_number
+  FROM public.receipts
+  WHERE user_id = v_user_id;
+
+  INSERT INTO public.receipts (
+    user_id, receipt_number, customer_id, payment_method,
+    sale_date, sale_time, subtotal, discount, total
+  )
+  VALUES (
+    v_user_id, v_receipt_number, p_customer_id, COALESCE(p_payment_method, 'cash'),
+    p_sale_date, p_sale_time, v_subtotal, v_discount, v_subtotal - v_discount
+  )
+  RETURNING id INTO v_receipt_id;
+
+  v_discount_left := v_discount;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_index := v_index + 1;
+    v_product_name := trim(v_item->>'product_name');
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_cost_price := (v_item->>'cost_price')::NUMERIC;
+    v_selling_price := (v_item->>'selling_price')::NUMERIC;
+    v_line_total := v_quantity * v_selling_price;
+
+    IF v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    -- Spread the discount across lines by value; the last line takes the rounding remainder
+    IF v_index = v_line_count THEN
+      v_line_discount := v_discount_left;
+    ELSE
+      v_line_discount := round(v_discount * v_line_total / NULLIF(v_subtotal, 0), 2);
+    END IF;
+    v_discount_left := v_discount_left - v_line_discount;
+
+    SELECT * INTO v_stock
+    FROM public.stock
+    WHERE user_id = v_user_id
+      AND product_name ILIKE v_product_name
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      IF v_stock.quantity < v_quantity THEN
+        RAISE EXCEPTION 'insufficient_stock'
+          USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+      END IF;
+
+      UPDATE public.stock
+      SET quantity = quantity - v_quantity,
+          total_sold = total_sold + v_quantity,
+          updated_at = now()
+      WHERE id = v_stock.id;
+    END IF;
+
+    INSERT INTO public.sales (
+      user_id, receipt_id, customer_id, sale_date, sale_time, product_name, quantity,
+      cost_price, selling_price, discount, total_cost, revenue, profit_loss
+    )
+    VALUES (
+      v_user_id, v_receipt_id, p_customer_id, p_sale_date, p_sale_time, v_product_name, v_quantity,
+      v_cost_price, v_selling_price, v_line_discount,
+      v_quantity * v_cost_price,
+      v_line_total - v_line_discount,
+      v_line_total - v_line_discount - v_quantity * v_cost_price
+    );
+  END LOOP;
+
+  RETURN v_receipt_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Keep receipt totals in step when a line is deleted, and drop emptied receipts
+CREATE OR REPLACE FUNCTION public.refresh_receipt_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.receipt_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales WHERE receipt_id = OLD.receipt_id) THEN
+    DELETE FROM public.receipts WHERE id = OLD.receipt_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.receipts r
+  SET subtotal = s.subtotal,
+      discount = s.discount,
+      total = s.total
+  FROM (
+    SELECT
+      SUM(quantity * selling_price) AS subtotal,
+      SUM(discount) AS discount,
+      SUM(revenue) AS total
+    FROM public.sales
+    WHERE receipt_id = OLD.receipt_id
+  ) s
+  WHERE r.id = OLD.receipt_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER refresh_receipt_totals_on_sales
+AFTER DELETE ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_receipt_totals();
+
+-- Single-line sales are now recorded as one-line receipts
+DROP FUNCTION IF EXISTS public.record_sale(DATE, TIME, TEXT, INTEGER, NUMERIC, NUMERIC, UUID);
@@ -0,0 +1,6 @@
+-- Add business_name to user_settings
+ALTER TABLE public.user_settings 
+ADD COLUMN IF NOT EXISTS business_name TEXT;
+
+-- Add comment
+COMMENT ON COLUMN public.user_settings.business_name IS 'Business name printed on receipts';
@@ -0,0 +1,60 @@
+-- Record how each payment was made
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS payment_method TEXT NOT NULL DEFAULT 'cash';
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS reference TEXT;
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS note TEXT;
+
+CREATE INDEX IF NOT EXISTS payments_payment_method_idx ON public.payments(payment_method);
+
+-- Capture the method and reference of the opening payment when creating a debtor
+DROP FUNCTION IF EXISTS public.create_debtor(TEXT, TEXT, TEXT, JSONB, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.create_debtor(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_customer_email TEXT,
+  p_items JSONB,
+  p_initial_payment NUMERIC DEFAULT 0,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_payment_reference TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_debtor_id UUID;
+  v_payment NUMERIC := COALESCE(p_initial_payment, 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF v_payment < 0 THEN
+    RAISE EXCEPTION 'Payment amount cannot be negative';
+  END IF;
+
+  INSERT INTO public.debtors (user_id, customer_name, customer_phone, customer_email)
+  VALUES (v_user_id, trim(p_customer_name), trim(p_customer_phone), NULLIF(trim(p_customer_email), ''))
+  RETURNING id INTO v_debtor_id;
+
+  INSERT INTO public.debt_items (debtor_id, stock_id, item_date, item_name, quantity, selling_price, total)
+  SELECT
+    v_debtor_id,
+    NULLIF(item->>'stock_id', '')::UUID,
+    (item->>'item_date')::DATE,
+    trim(item->>'item_name'),
+    (item->>'quantity')::INTEGER,
+    (item->>'selling_price')::NUMERIC,
+    (item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_payment > 0 THEN
+    INSERT INTO public.payments (debtor_id, amount, payment_method, reference)
+    VALUES (v_debtor_id, v_payment, COALESCE(p_payment_method, 'cash'), NULLIF(trim(p_payment_reference), ''));
+  END IF;
+
+  RETURN v_debtor_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,166 @@
+-- Voided payments stay on the ledger but no longer count towards the debtor's totals
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS voided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+-- Audit trail of every correction made to a payment
+CREATE TABLE public.payment_audit (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'void')),
+  old_amount DECIMAL(10, 2) NOT NULL,
+  new_amount DECIMAL(10, 2),
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_audit_payment_id_idx ON public.payment_audit(payment_id);
+
+-- Enable RLS
+ALTER TABLE public.payment_audit ENABLE ROW LEVEL SECURITY;
+
+-- Audit entries can be read and added, never changed or removed
+CREATE POLICY "Users can view their own payment audit entries"
+ON public.payment_audit FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own payment audit entries"
+ON public.payment_audit FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Exclude voided payments from the debtor totals
+CREATE OR REPLACE FUNCTION public.compute_debtor_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(SUM(total), 0) INTO NEW.grand_total
+  FROM public.debt_items
+  WHERE debtor_id = NEW.id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO NEW.total_paid
+  FROM public.payments
+  WHERE debtor_id = NEW.id
+    AND voided_at IS NULL;
+
+  NEW.current_balance = NEW.grand_total - NEW.total_paid;
+  NEW.status = CASE WHEN NEW.current_balance <= 0 THEN 'paid' ELSE 'pending' END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Exclude voided payments from the overpayment check
+CREATE OR REPLACE FUNCTION public.check_payment_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_balance NUMERIC;
+BEGIN
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  PERFORM 1 FROM public.debtors WHERE id = NEW.debtor_id FOR UPDATE;
+
+  SELECT
+    (SELECT COALESCE(SUM(total), 0) FROM public.debt_items WHERE debtor_id = NEW.debtor_id)
+    - (SELECT COALESCE(SUM(amount), 0) FROM public.payments
+       WHERE debtor_id = NEW.debtor_id AND id <> NEW.id AND voided_at IS NULL)
+  INTO v_balance;
+
+  IF NEW.amount > v_balance THEN
+    RAISE EXCEPTION 'Payment cannot exceed current balance';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Correct the amount of a payment, recording the old and new amounts and the reason
+CREATE OR REPLACE FUNCTION public.edit_payment(
+  p_payment_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT p.* INTO v_payment
+  FROM public.payments p
+  JOIN public.debtors d ON d.id = p.debtor_id
+  WHERE p.id = p_payment_id
+    AND d.user_id = v_user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Voided payments cannot be edited';
+  END IF;
+
+  IF v_payment.amount = p_amount THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.payment_audit (payment_id, user_id, action, old_amount, new_amount, reason)
+  VALUES (p_payment_id, v_user_id, 'edit', v_payment.amount, p_amount, trim(p_reason));
+
+  UPDATE public.payments
+  SET amount = p_amount
+  WHERE id = p_payment_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Void a payment, keeping it on the ledger with who voided it, when and why
+CREATE OR REPLACE FUNCTION public.void_payment(
+  p_payment_id UUID,
+  p_reason TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_payment public.payments%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT p.* INTO v_payment
+  FROM public.payments p
+  JOIN public.debtors d ON d.id = p.debtor_id
+  WHERE p.id = p_payment_id
+    AND d.user_id = v_user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Payment is already voided';
+  END IF;
+
+  INSERT INTO public.payment_audit (payment_id, user_id, action, old_amount, reason)
+  VALUES (p_payment_id, v_user_id, 'void', v_payment.amount, trim(p_reason));
+
+  UPDATE public.payments
+  SET voided_at = now(),
+      voided_by = v_user_id,
+      void_reason = trim(p_reason)
+  WHERE id = p_payment_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
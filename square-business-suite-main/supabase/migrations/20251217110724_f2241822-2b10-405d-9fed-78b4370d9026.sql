@@ -0,0 +1,13 @@
+-- Add low_stock_threshold to user_settings
+ALTER TABLE public.user_settings 
+ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER NOT NULL DEFAULT 10 CHECK (low_stock_threshold >= 0);
+
+-- Add comment
+COMMENT ON COLUMN public.user_settings.low_stock_threshold IS 'Default quantity at or below which a product is flagged as low stock';
+
+-- Optional per-product reorder point and reorder size
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS reorder_level INTEGER CHECK (reorder_level >= 0);
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS reorder_quantity INTEGER CHECK (reorder_quantity >= 1);
+
+COMMENT ON COLUMN public.stock.reorder_level IS 'Overrides the user''s low stock threshold for this product';
+COMMENT ON COLUMN public.stock.reorder_quantity IS 'Units to order when this product reaches its reorder level';
@@ -0,0 +1,307 @@
+-- Create stock_movements table: an append-only ledger of every change to stock quantity
+CREATE TABLE public.stock_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stock_id UUID NOT NULL REFERENCES public.stock(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('receipt', 'sale', 'credit_sale', 'adjustment', 'return', 'write_off')),
+  quantity_change INTEGER NOT NULL,
+  quantity_after INTEGER NOT NULL,
+  reference_id UUID,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_movements_stock_id_idx ON public.stock_movements(stock_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Movements are never edited or deleted, so only view and create policies
+CREATE POLICY "Users can view their own stock movements"
+ON public.stock_movements FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own stock movements"
+ON public.stock_movements FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Describe the next stock quantity change in this transaction. The ledger trigger
+-- consumes the context, so it applies to exactly one change.
+CREATE OR REPLACE FUNCTION public.set_stock_movement(
+  p_movement_type TEXT,
+  p_reference_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('app.stock_movement_type', COALESCE(p_movement_type, ''), true);
+  PERFORM set_config('app.stock_movement_reference', COALESCE(p_reference_id::TEXT, ''), true);
+  PERFORM set_config('app.stock_movement_note', COALESCE(p_note, ''), true);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Write a movement for every quantity change. New products open with a receipt,
+-- and changes made without a context are recorded as adjustments.
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_change INTEGER;
+  v_type TEXT := NULLIF(current_setting('app.stock_movement_type', true), '');
+  v_reference TEXT := NULLIF(current_setting('app.stock_movement_reference', true), '');
+  v_note TEXT := NULLIF(current_setting('app.stock_movement_note', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_change := NEW.quantity;
+    v_type := COALESCE(v_type, 'receipt');
+    v_note := COALESCE(v_note, 'Opening stock');
+  ELSE
+    v_change := NEW.quantity - OLD.quantity;
+    v_type := COALESCE(v_type, 'adjustment');
+  END IF;
+
+  IF v_change <> 0 THEN
+    INSERT INTO public.stock_movements (
+      user_id, stock_id, movement_type, quantity_change, quantity_after, reference_id, note
+    )
+    VALUES (
+      NEW.user_id, NEW.id, v_type, v_change, NEW.quantity, v_reference::UUID, v_note
+    );
+  END IF;
+
+  PERFORM public.set_stock_movement(NULL);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER log_stock_movements
+AFTER INSERT OR UPDATE OF quantity ON public.stock
+FOR EACH ROW
+EXECUTE FUNCTION public.log_stock_movement();
+
+-- Manual quantity changes: restocks, adjustments, customer returns and write-offs.
+-- p_quantity is the signed change; returns the new quantity.
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  p_stock_id UUID,
+  p_movement_type TEXT,
+  p_quantity INTEGER,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_movement_type NOT IN ('receipt', 'adjustment', 'return', 'write_off') THEN
+    RAISE EXCEPTION 'Invalid movement type: %', p_movement_type;
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Quantity change cannot be zero';
+  END IF;
+
+  IF p_movement_type IN ('receipt', 'return') AND p_quantity < 0 THEN
+    RAISE EXCEPTION 'Receipts and returns must add stock';
+  END IF;
+
+  IF p_movement_type = 'write_off' AND p_quantity > 0 THEN
+    RAISE EXCEPTION 'Write-offs must remove stock';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = p_stock_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  IF v_stock.quantity + p_quantity < 0 THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+  END IF;
+
+  PERFORM public.set_stock_movement(p_movement_type, NULL, NULLIF(trim(p_note), ''));
+
+  UPDATE public.stock
+  SET quantity = quantity + p_quantity,
+      updated_at = now()
+  WHERE id = v_stock.id;
+
+  RETURN v_stock.quantity + p_quantity;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Tag basket deductions as sales against their receipt
+CREATE OR REPLACE FUNCTION public.record_receipt(
+  p_sale_date DATE,
+  p_sale_time TIME,
+  p_items JSONB,
+  p_customer_id UUID DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_discount NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_receipt_id UUID;
+  v_receipt_number TEXT;
+  v_subtotal NUMERIC;
+  v_discount NUMERIC := COALESCE(p_discount, 0);
+  v_discount_left NUMERIC;
+  v_line_count INTEGER;
+  v_index INTEGER := 0;
+  v_item JSONB;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_cost_price NUMERIC;
+  v_selling_price NUMERIC;
+  v_line_total NUMERIC;
+  v_line_discount NUMERIC;
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  v_line_count := jsonb_array_length(p_items);
+
+  SELECT SUM((item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the basket subtotal';
+  END IF;
+
+  -- Receipt numbers run sequentially per user; the advisory lock serialises concurrent checkouts
+  PERFORM pg_advisory_xact_lock(hashtext('receipt_number:' || v_user_id::TEXT));
+
+  SELECT 'RCP-' || lpad((COALESCE(MAX(substring(receipt_number FROM 5)::INTEGER), 0) + 1)::TEXT, 6, '0')
+  INTO v_receipt_number
+  FROM public.receipts
+  WHERE user_id = v_user_id;
+
+  INSERT INTO public.receipts (
+    user_id, receipt_number, customer_id, payment_method,
+    sale_date, sale_time, subtotal, discount, total
+  )
+  VALUES (
+    v_user_id, v_receipt_number, p_customer_id, COALESCE(p_payment_method, 'cash'),
+    p_sale_date, p_sale_time, v_subtotal, v_discount, v_subtotal - v_discount
+  )
+  RETURNING id INTO v_receipt_id;
+
+  v_discount_left := v_discount;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_index := v_index + 1;
+    v_product_name := trim(v_item->>'product_name');
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_cost_price := (v_item->>'cost_price')::NUMERIC;
+    v_selling_price := (v_item->>'selling_price')::NUMERIC;
+    v_line_total := v_quantity * v_selling_price;
+
+    IF v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    -- Spread the discount across lines by value; the last line takes the rounding remainder
+    IF v_index = v_line_count THEN
+      v_line_discount := v_discount_left;
+    ELSE
+      v_line_discount := round(v_discount * v_line_total / NULLIF(v_subtotal, 0), 2);
+    END IF;
+    v_discount_left := v_discount_left - v_line_discount;
+
+    SELECT * INTO v_stock
+    FROM public.stock
+    WHERE user_id = v_user_id
+      AND product_name ILIKE v_product_name
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      IF v_stock.quantity < v_quantity THEN
+        RAISE EXCEPTION 'insufficient_stock'
+          USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+      END IF;
+
+      PERFORM public.set_stock_movement('sale', v_receipt_id, v_receipt_number);
+
+      UPDATE public.stock
+      SET quantity = quantity - v_quantity,
+          total_sold = total_sold + v_quantity,
+          updated_at = now()
+      WHERE id = v_stock.id;
+    END IF;
+
+    INSERT INTO public.sales (
+      user_id, receipt_id, customer_id, sale_date, sale_time, product_name, quantity,
+      cost_price, selling_price, discount, total_cost, revenue, profit_loss
+    )
+    VALUES (
+      v_user_id, v_receipt_id, p_customer_id, p_sale_date, p_sale_time, v_product_name, v_quantity,
+      v_cost_price, v_selling_price, v_line_discount,
+      v_quantity * v_cost_price,
+      v_line_total - v_line_discount,
+      v_line_total - v_line_discount - v_quantity * v_cost_price
+    );
+  END LOOP;
+
+  RETURN v_receipt_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Tag credit deductions as credit sales against their debt item
+CREATE OR REPLACE FUNCTION public.deduct_debt_item_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_stock public.stock%ROWTYPE;
+  v_customer_name TEXT;
+BEGIN
+  IF NEW.stock_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = NEW.stock_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  IF v_stock.quantity < NEW.quantity THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+  END IF;
+
+  SELECT customer_name INTO v_customer_name
+  FROM public.debtors
+  WHERE id = NEW.debtor_id;
+
+  PERFORM public.set_stock_movement('credit_sale', NEW.id, v_customer_name);
+
+  UPDATE public.stock
+  SET quantity = quantity - NEW.quantity,
+      total_sold = total_sold + NEW.quantity,
+      updated_at = now()
+  WHERE id = v_stock.id;
+
+  NEW.item_name = v_stock.product_name;
+  NEW.cost_price = COALESCE(NEW.cost_price, v_stock.cost_price);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
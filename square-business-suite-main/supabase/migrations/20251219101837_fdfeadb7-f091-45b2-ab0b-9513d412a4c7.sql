@@ -0,0 +1,140 @@
+-- Create stock_takes table: one row per committed physical count
+CREATE TABLE public.stock_takes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  counted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  total_variance INTEGER NOT NULL DEFAULT 0,
+  total_variance_value DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create stock_take_lines table: counted against system quantity per product
+CREATE TABLE public.stock_take_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  stock_take_id UUID NOT NULL REFERENCES public.stock_takes(id) ON DELETE CASCADE,
+  stock_id UUID REFERENCES public.stock(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  system_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER NOT NULL CHECK (counted_quantity >= 0),
+  variance INTEGER NOT NULL,
+  cost_price DECIMAL(10, 2) NOT NULL,
+  variance_value DECIMAL(12, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS stock_take_lines_stock_take_id_idx ON public.stock_take_lines(stock_take_id);
+
+-- Enable RLS
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_take_lines ENABLE ROW LEVEL SECURITY;
+
+-- Committed counts are a permanent record, so only view and create policies
+CREATE POLICY "Users can view their own stock takes"
+ON public.stock_takes FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own stock takes"
+ON public.stock_takes FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own stock take lines"
+ON public.stock_take_lines FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.stock_takes
+  WHERE stock_takes.id = stock_take_lines.stock_take_id
+    AND stock_takes.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create their own stock take lines"
+ON public.stock_take_lines FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.stock_takes
+  WHERE stock_takes.id = stock_take_lines.stock_take_id
+    AND stock_takes.user_id = auth.uid()
+));
+
+-- Commit a stock take in one transaction: record each counted line against the
+-- system quantity at commit time, and set stock to the counted quantity through
+-- the movement ledger. p_counts is a JSON array of { stock_id, counted_quantity }.
+CREATE OR REPLACE FUNCTION public.commit_stock_take(
+  p_reason TEXT,
+  p_counts JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock_take_id UUID;
+  v_reason TEXT := NULLIF(trim(p_reason), '');
+  v_count JSONB;
+  v_counted INTEGER;
+  v_variance INTEGER;
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF p_counts IS NULL OR jsonb_typeof(p_counts) <> 'array' OR jsonb_array_length(p_counts) = 0 THEN
+    RAISE EXCEPTION 'At least one counted product is required';
+  END IF;
+
+  INSERT INTO public.stock_takes (user_id, reason)
+  VALUES (v_user_id, v_reason)
+  RETURNING id INTO v_stock_take_id;
+
+  FOR v_count IN SELECT * FROM jsonb_array_elements(p_counts)
+  LOOP
+    v_counted := (v_count->>'counted_quantity')::INTEGER;
+
+    IF v_counted IS NULL OR v_counted < 0 THEN
+      RAISE EXCEPTION 'Counted quantity cannot be negative';
+    END IF;
+
+    SELECT * INTO v_stock
+    FROM public.stock
+    WHERE id = (v_count->>'stock_id')::UUID
+      AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Stock item not found';
+    END IF;
+
+    v_variance := v_counted - v_stock.quantity;
+
+    INSERT INTO public.stock_take_lines (
+      stock_take_id, stock_id, product_name, system_quantity,
+      counted_quantity, variance, cost_price, variance_value
+    )
+    VALUES (
+      v_stock_take_id, v_stock.id, v_stock.product_name, v_stock.quantity,
+      v_counted, v_variance, v_stock.cost_price, v_variance * v_stock.cost_price
+    );
+
+    IF v_variance <> 0 THEN
+      PERFORM public.set_stock_movement('adjustment', v_stock_take_id, 'Stock take: ' || v_reason);
+
+      UPDATE public.stock
+      SET quantity = v_counted,
+          updated_at = now()
+      WHERE id = v_stock.id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.stock_takes t
+  SET total_variance = l.total_variance,
+      total_variance_value = l.total_variance_value
+  FROM (
+    SELECT SUM(variance) AS total_variance, SUM(variance_value) AS total_variance_value
+    FROM public.stock_take_lines
+    WHERE stock_take_id = v_stock_take_id
+  ) l
+  WHERE t.id = v_stock_take_id;
+
+  RETURN v_stock_take_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,479 @@
+-- Add costing_method to user_settings
+ALTER TABLE public.user_settings
+ADD COLUMN IF NOT EXISTS costing_method TEXT NOT NULL DEFAULT 'weighted_average'
+  CHECK (costing_method IN ('weighted_average', 'fifo'));
+
+-- Add comment
+COMMENT ON COLUMN public.user_settings.costing_method IS 'How sold stock is costed: weighted_average or fifo';
+
+-- Create stock_batches table: each receipt of stock at its unit cost, with what is left of it
+CREATE TABLE public.stock_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stock_id UUID NOT NULL REFERENCES public.stock(id) ON DELETE CASCADE,
+  quantity_received INTEGER NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining INTEGER NOT NULL CHECK (quantity_remaining >= 0),
+  unit_cost DECIMAL(10, 2) NOT NULL CHECK (unit_cost >= 0),
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stock_batches_stock_id_idx ON public.stock_batches(stock_id, received_at);
+
+-- Enable RLS
+ALTER TABLE public.stock_batches ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own stock batches"
+ON public.stock_batches FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own stock batches"
+ON public.stock_batches FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own stock batches"
+ON public.stock_batches FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own stock batches"
+ON public.stock_batches FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Existing stock opens as a single batch at its current cost price
+INSERT INTO public.stock_batches (user_id, stock_id, quantity_received, quantity_remaining, unit_cost, received_at)
+SELECT user_id, id, quantity, quantity, cost_price, COALESCE(updated_at, created_at, now())
+FROM public.stock
+WHERE quantity > 0;
+
+-- The movement context can now carry the unit cost of stock coming in
+DROP FUNCTION IF EXISTS public.set_stock_movement(TEXT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.set_stock_movement(
+  p_movement_type TEXT,
+  p_reference_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('app.stock_movement_type', COALESCE(p_movement_type, ''), true);
+  PERFORM set_config('app.stock_movement_reference', COALESCE(p_reference_id::TEXT, ''), true);
+  PERFORM set_config('app.stock_movement_note', COALESCE(p_note, ''), true);
+  PERFORM set_config('app.stock_movement_unit_cost', COALESCE(p_unit_cost::TEXT, ''), true);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Per-unit cost of the next p_quantity units of a product under the user's costing
+-- method, skipping p_skip units already spoken for (e.g. earlier lines of a basket).
+-- Weighted average uses the running cost price; FIFO walks the oldest batches first.
+CREATE OR REPLACE FUNCTION public.stock_issue_cost(
+  p_stock_id UUID,
+  p_quantity INTEGER,
+  p_skip INTEGER DEFAULT 0
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_stock public.stock%ROWTYPE;
+  v_method TEXT;
+  v_batch RECORD;
+  v_skip INTEGER := GREATEST(COALESCE(p_skip, 0), 0);
+  v_needed INTEGER := p_quantity;
+  v_available INTEGER;
+  v_take INTEGER;
+  v_total NUMERIC := 0;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Quantity must be at least 1';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = p_stock_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  SELECT costing_method INTO v_method
+  FROM public.user_settings
+  WHERE user_id = v_stock.user_id;
+
+  IF COALESCE(v_method, 'weighted_average') <> 'fifo' THEN
+    RETURN v_stock.cost_price;
+  END IF;
+
+  FOR v_batch IN
+    SELECT quantity_remaining, unit_cost
+    FROM public.stock_batches
+    WHERE stock_id = p_stock_id
+      AND quantity_remaining > 0
+    ORDER BY received_at, created_at
+  LOOP
+    EXIT WHEN v_needed = 0;
+    v_available := v_batch.quantity_remaining - LEAST(v_skip, v_batch.quantity_remaining);
+    v_skip := v_skip - (v_batch.quantity_remaining - v_available);
+    v_take := LEAST(v_available, v_needed);
+    v_total := v_total + v_take * v_batch.unit_cost;
+    v_needed := v_needed - v_take;
+  END LOOP;
+
+  -- Units beyond the recorded batches are costed at the current cost price
+  v_total := v_total + v_needed * v_stock.cost_price;
+
+  RETURN round(v_total / p_quantity, 2);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Keep batches in step with a quantity change and re-derive the cost price.
+-- Stock coming in opens a batch (at p_unit_cost, else the current cost price);
+-- stock going out draws down the oldest batches. Weighted average blends incoming
+-- cost into the cost price; FIFO values stock at the average of what remains.
+CREATE OR REPLACE FUNCTION public.apply_stock_batch_change(
+  p_stock_id UUID,
+  p_change INTEGER,
+  p_unit_cost NUMERIC DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_stock public.stock%ROWTYPE;
+  v_method TEXT;
+  v_batch public.stock_batches%ROWTYPE;
+  v_unit_cost NUMERIC;
+  v_to_consume INTEGER;
+  v_take INTEGER;
+  v_new_cost NUMERIC;
+BEGIN
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = p_stock_id;
+
+  SELECT costing_method INTO v_method
+  FROM public.user_settings
+  WHERE user_id = v_stock.user_id;
+  v_method := COALESCE(v_method, 'weighted_average');
+
+  IF p_change > 0 THEN
+    v_unit_cost := COALESCE(p_unit_cost, v_stock.cost_price);
+
+    INSERT INTO public.stock_batches (user_id, stock_id, quantity_received, quantity_remaining, unit_cost)
+    VALUES (v_stock.user_id, v_stock.id, p_change, p_change, v_unit_cost);
+
+    IF v_method = 'weighted_average' THEN
+      v_new_cost := round(
+        ((v_stock.quantity - p_change) * v_stock.cost_price + p_change * v_unit_cost) / v_stock.quantity,
+        2
+      );
+    END IF;
+  ELSE
+    v_to_consume := -p_change;
+
+    FOR v_batch IN
+      SELECT *
+      FROM public.stock_batches
+      WHERE stock_id = p_stock_id
+        AND quantity_remaining > 0
+      ORDER BY received_at, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_to_consume = 0;
+      v_take := LEAST(v_batch.quantity_remaining, v_to_consume);
+
+      UPDATE public.stock_batches
+      SET quantity_remaining = quantity_remaining - v_take
+      WHERE id = v_batch.id;
+
+      v_to_consume := v_to_consume - v_take;
+    END LOOP;
+  END IF;
+
+  IF v_method = 'fifo' THEN
+    SELECT round(SUM(quantity_remaining * unit_cost) / NULLIF(SUM(quantity_remaining), 0), 2)
+    INTO v_new_cost
+    FROM public.stock_batches
+    WHERE stock_id = p_stock_id
+      AND quantity_remaining > 0;
+  END IF;
+
+  -- Cost price only changes here, so this update does not re-enter the quantity trigger
+  IF v_new_cost IS NOT NULL AND v_new_cost >= 0.01 AND v_new_cost <> v_stock.cost_price THEN
+    UPDATE public.stock
+    SET cost_price = v_new_cost
+    WHERE id = p_stock_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- The ledger trigger now also maintains batches
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_change INTEGER;
+  v_type TEXT := NULLIF(current_setting('app.stock_movement_type', true), '');
+  v_reference TEXT := NULLIF(current_setting('app.stock_movement_reference', true), '');
+  v_note TEXT := NULLIF(current_setting('app.stock_movement_note', true), '');
+  v_unit_cost TEXT := NULLIF(current_setting('app.stock_movement_unit_cost', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_change := NEW.quantity;
+    v_type := COALESCE(v_type, 'receipt');
+    v_note := COALESCE(v_note, 'Opening stock');
+  ELSE
+    v_change := NEW.quantity - OLD.quantity;
+    v_type := COALESCE(v_type, 'adjustment');
+  END IF;
+
+  PERFORM public.set_stock_movement(NULL);
+
+  IF v_change <> 0 THEN
+    INSERT INTO public.stock_movements (
+      user_id, stock_id, movement_type, quantity_change, quantity_after, reference_id, note
+    )
+    VALUES (
+      NEW.user_id, NEW.id, v_type, v_change, NEW.quantity, v_reference::UUID, v_note
+    );
+
+    PERFORM public.apply_stock_batch_change(NEW.id, v_change, v_unit_cost::NUMERIC);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Restocks can carry the unit cost of the delivery
+DROP FUNCTION IF EXISTS public.adjust_stock(UUID, TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  p_stock_id UUID,
+  p_movement_type TEXT,
+  p_quantity INTEGER,
+  p_note TEXT DEFAULT NULL,
+  p_unit_cost NUMERIC DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_movement_type NOT IN ('receipt', 'adjustment', 'return', 'write_off') THEN
+    RAISE EXCEPTION 'Invalid movement type: %', p_movement_type;
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Quantity change cannot be zero';
+  END IF;
+
+  IF p_movement_type IN ('receipt', 'return') AND p_quantity < 0 THEN
+    RAISE EXCEPTION 'Receipts and returns must add stock';
+  END IF;
+
+  IF p_movement_type = 'write_off' AND p_quantity > 0 THEN
+    RAISE EXCEPTION 'Write-offs must remove stock';
+  END IF;
+
+  IF p_unit_cost IS NOT NULL AND (p_movement_type <> 'receipt' OR p_unit_cost < 0.01) THEN
+    RAISE EXCEPTION 'Unit cost must be at least 0.01 and only applies to stock received';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = p_stock_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  IF v_stock.quantity + p_quantity < 0 THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+  END IF;
+
+  PERFORM public.set_stock_movement(p_movement_type, NULL, NULLIF(trim(p_note), ''), p_unit_cost);
+
+  UPDATE public.stock
+  SET quantity = quantity + p_quantity,
+      updated_at = now()
+  WHERE id = v_stock.id;
+
+  RETURN v_stock.quantity + p_quantity;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Cost stock-linked basket lines by the costing method rather than the price sent by the client
+CREATE OR REPLACE FUNCTION public.record_receipt(
+  p_sale_date DATE,
+  p_sale_time TIME,
+  p_items JSONB,
+  p_customer_id UUID DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_discount NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_receipt_id UUID;
+  v_receipt_number TEXT;
+  v_subtotal NUMERIC;
+  v_discount NUMERIC := COALESCE(p_discount, 0);
+  v_discount_left NUMERIC;
+  v_line_count INTEGER;
+  v_index INTEGER := 0;
+  v_item JSONB;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_cost_price NUMERIC;
+  v_selling_price NUMERIC;
+  v_line_total NUMERIC;
+  v_line_discount NUMERIC;
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  v_line_count := jsonb_array_length(p_items);
+
+  SELECT SUM((item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the basket subtotal';
+  END IF;
+
+  -- Receipt numbers run sequentially per user; the advisory lock serialises concurrent checkouts
+  PERFORM pg_advisory_xact_lock(hashtext('receipt_number:' || v_user_id::TEXT));
+
+  SELECT 'RCP-' || lpad((COALESCE(MAX(substring(receipt_number FROM 5)::INTEGER), 0) + 1)::TEXT, 6, '0')
+  INTO v_receipt_number
+  FROM public.receipts
+  WHERE user_id = v_user_id;
+
+  INSERT INTO public.receipts (
+    user_id, receipt_number, customer_id, payment_method,
+    sale_date, sale_time, subtotal, discount, total
+  )
+  VALUES (
+    v_user_id, v_receipt_number, p_customer_id, COALESCE(p_payment_method, 'cash'),
+    p_sale_date, p_sale_time, v_subtotal, v_discount, v_subtotal - v_discount
+  )
+  RETURNING id INTO v_receipt_id;
+
+  v_discount_left := v_discount;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_index := v_index + 1;
+    v_product_name := trim(v_item->>'product_name');
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_cost_price := (v_item->>'cost_price')::NUMERIC;
+    v_selling_price := (v_item->>'selling_price')::NUMERIC;
+    v_line_total := v_quantity * v_selling_price;
+
+    IF v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    -- Spread the discount across lines by value; the last line takes the rounding remainder
+    IF v_index = v_line_count THEN
+      v_line_discount := v_discount_left;
+    ELSE
+      v_line_discount := round(v_discount * v_line_total / NULLIF(v_subtotal, 0), 2);
+    END IF;
+    v_discount_left := v_discount_left - v_line_discount;
+
+    SELECT * INTO v_stock
+    FROM public.stock
+    WHERE user_id = v_user_id
+      AND product_name ILIKE v_product_name
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      IF v_stock.quantity < v_quantity THEN
+        RAISE EXCEPTION 'insufficient_stock'
+          USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+      END IF;
+
+      v_cost_price := public.stock_issue_cost(v_stock.id, v_quantity);
+
+      PERFORM public.set_stock_movement('sale', v_receipt_id, v_receipt_number);
+
+      UPDATE public.stock
+      SET quantity = quantity - v_quantity,
+          total_sold = total_sold + v_quantity,
+          updated_at = now()
+      WHERE id = v_stock.id;
+    END IF;
+
+    INSERT INTO public.sales (
+      user_id, receipt_id, customer_id, sale_date, sale_time, product_name, quantity,
+      cost_price, selling_price, discount, total_cost, revenue, profit_loss
+    )
+    VALUES (
+      v_user_id, v_receipt_id, p_customer_id, p_sale_date, p_sale_time, v_product_name, v_quantity,
+      v_cost_price, v_selling_price, v_line_discount,
+      v_quantity * v_cost_price,
+      v_line_total - v_line_discount,
+      v_line_total - v_line_discount - v_quantity * v_cost_price
+    );
+  END LOOP;
+
+  RETURN v_receipt_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Cost credit items by the costing method at the moment the goods leave stock
+CREATE OR REPLACE FUNCTION public.deduct_debt_item_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_stock public.stock%ROWTYPE;
+  v_customer_name TEXT;
+BEGIN
+  IF NEW.stock_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = NEW.stock_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  IF v_stock.quantity < NEW.quantity THEN
+    RAISE EXCEPTION 'insufficient_stock'
+      USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+  END IF;
+
+  NEW.item_name = v_stock.product_name;
+  NEW.cost_price = COALESCE(NEW.cost_price, public.stock_issue_cost(v_stock.id, NEW.quantity));
+
+  SELECT customer_name INTO v_customer_name
+  FROM public.debtors
+  WHERE id = NEW.debtor_id;
+
+  PERFORM public.set_stock_movement('credit_sale', NEW.id, v_customer_name);
+
+  UPDATE public.stock
+  SET quantity = quantity - NEW.quantity,
+      total_sold = total_sold + NEW.quantity,
+      updated_at = now()
+  WHERE id = v_stock.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
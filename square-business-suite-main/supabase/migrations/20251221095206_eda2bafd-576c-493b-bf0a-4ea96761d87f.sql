@@ -0,0 +1,250 @@
+-- Product names are unique per user (ignoring case and surrounding spaces).
+-- Existing duplicates keep their first row's name; later ones get the first numbered
+-- suffix that no other product already uses, so "Soap (2)" is never taken twice.
+DO $$
+DECLARE
+  v_duplicate RECORD;
+  v_suffix INTEGER;
+  v_name TEXT;
+BEGIN
+  FOR v_duplicate IN
+    SELECT id, user_id, product_name
+    FROM (
+      SELECT id, user_id, trim(product_name) AS product_name,
+        row_number() OVER (PARTITION BY user_id, lower(trim(product_name)) ORDER BY created_at, id) AS rn
+      FROM public.stock
+    ) d
+    WHERE d.rn > 1
+    ORDER BY user_id, lower(product_name), rn
+  LOOP
+    v_suffix := 2;
+    LOOP
+      v_name := v_duplicate.product_name || ' (' || v_suffix || ')';
+      EXIT WHEN NOT EXISTS (
+        SELECT 1 FROM public.stock
+        WHERE user_id = v_duplicate.user_id
+          AND lower(trim(product_name)) = lower(v_name)
+      );
+      v_suffix := v_suffix + 1;
+    END LOOP;
+
+    UPDATE public.stock
+    SET product_name = v_name
+    WHERE id = v_duplicate.id;
+  END LOOP;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_user_id_product_name_key
+ON public.stock (user_id, lower(trim(product_name)));
+
+-- Sales rows reference the stock item they were sold from
+ALTER TABLE public.sales ADD COLUMN IF NOT EXISTS stock_id UUID REFERENCES public.stock(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS sales_stock_id_idx ON public.sales(stock_id);
+
+-- Link past sales to stock by the name they were matched on at the time
+UPDATE public.sales s
+SET stock_id = st.id
+FROM public.stock st
+WHERE s.stock_id IS NULL
+  AND st.user_id = s.user_id
+  AND lower(trim(st.product_name)) = lower(trim(s.product_name));
+
+-- Basket lines now carry stock_id; only lines with one deduct stock.
+-- p_items is a JSON array of { stock_id, product_name, quantity, cost_price, selling_price }.
+CREATE OR REPLACE FUNCTION public.record_receipt(
+  p_sale_date DATE,
+  p_sale_time TIME,
+  p_items JSONB,
+  p_customer_id UUID DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_discount NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_receipt_id UUID;
+  v_receipt_number TEXT;
+  v_subtotal NUMERIC;
+  v_discount NUMERIC := COALESCE(p_discount, 0);
+  v_discount_left NUMERIC;
+  v_line_count INTEGER;
+  v_index INTEGER := 0;
+  v_item JSONB;
+  v_stock_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_cost_price NUMERIC;
+  v_selling_price NUMERIC;
+  v_line_total NUMERIC;
+  v_line_discount NUMERIC;
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  v_line_count := jsonb_array_length(p_items);
+
+  SELECT SUM((item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the basket subtotal';
+  END IF;
+
+  -- Receipt numbers run sequentially per user; the advisory lock serialises concurrent checkouts
+  PERFORM pg_advisory_xact_lock(hashtext('receipt_number:' || v_user_id::TEXT));
+
+  SELECT 'RCP-' || lpad((COALESCE(MAX(substring(receipt_number FROM 5)::INTEGER), 0) + 1)::TEXT, 6, '0')
+  INTO v_receipt_number
+  FROM public.receipts
+  WHERE user_id = v_user_id;
+
+  INSERT INTO public.receipts (
+    user_id, receipt_number, customer_id, payment_method,
+    sale_date, sale_time, subtotal, discount, total
+  )
+  VALUES (
+    v_user_id, v_receipt_number, p_customer_id, COALESCE(p_payment_method, 'cash'),
+    p_sale_date, p_sale_time, v_subtotal, v_discount, v_subtotal - v_discount
+  )
+  RETURNING id INTO v_receipt_id;
+
+  v_discount_left := v_discount;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_index := v_index + 1;
+    v_stock_id := NULLIF(v_item->>'stock_id', '')::UUID;
+    v_product_name := trim(v_item->>'product_name');
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_cost_price := (v_item->>'cost_price')::NUMERIC;
+    v_selling_price := (v_item->>'selling_price')::NUMERIC;
+    v_line_total := v_quantity * v_selling_price;
+
+    IF v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    -- Spread the discount across lines by value; the last line takes the rounding remainder
+    IF v_index = v_line_count THEN
+      v_line_discount := v_discount_left;
+    ELSE
+      v_line_discount := round(v_discount * v_line_total / NULLIF(v_subtotal, 0), 2);
+    END IF;
+    v_discount_left := v_discount_left - v_line_discount;
+
+    IF v_stock_id IS NOT NULL THEN
+      SELECT * INTO v_stock
+      FROM public.stock
+      WHERE id = v_stock_id
+        AND user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock item not found';
+      END IF;
+
+      IF v_stock.quantity < v_quantity THEN
+        RAISE EXCEPTION 'insufficient_stock'
+          USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+      END IF;
+
+      v_product_name := v_stock.product_name;
+      v_cost_price := public.stock_issue_cost(v_stock.id, v_quantity);
+
+      PERFORM public.set_stock_movement('sale', v_receipt_id, v_receipt_number);
+
+      UPDATE public.stock
+      SET quantity = quantity - v_quantity,
+          total_sold = total_sold + v_quantity,
+          updated_at = now()
+      WHERE id = v_stock.id;
+    END IF;
+
+    INSERT INTO public.sales (
+      user_id, receipt_id, stock_id, customer_id, sale_date, sale_time, product_name, quantity,
+      cost_price, selling_price, discount, total_cost, revenue, profit_loss
+    )
+    VALUES (
+      v_user_id, v_receipt_id, v_stock_id, p_customer_id, p_sale_date, p_sale_time, v_product_name, v_quantity,
+      v_cost_price, v_selling_price, v_line_discount,
+      v_quantity * v_cost_price,
+      v_line_total - v_line_discount,
+      v_line_total - v_line_discount - v_quantity * v_cost_price
+    );
+  END LOOP;
+
+  RETURN v_receipt_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Edit a stock item. A new cost price revalues the units still on hand, so
+-- weighted average and FIFO costing carry on from the corrected cost.
+CREATE OR REPLACE FUNCTION public.update_stock_item(
+  p_stock_id UUID,
+  p_product_name TEXT,
+  p_cost_price NUMERIC,
+  p_reorder_level INTEGER DEFAULT NULL,
+  p_reorder_quantity INTEGER DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock public.stock%ROWTYPE;
+  v_product_name TEXT := NULLIF(trim(p_product_name), '');
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_product_name IS NULL THEN
+    RAISE EXCEPTION 'Product name is required';
+  END IF;
+
+  IF p_cost_price IS NULL OR p_cost_price < 0.01 THEN
+    RAISE EXCEPTION 'Cost price must be at least 0.01';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = p_stock_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.stock
+    WHERE user_id = v_user_id
+      AND id <> p_stock_id
+      AND lower(trim(product_name)) = lower(v_product_name)
+  ) THEN
+    RAISE EXCEPTION 'duplicate_product'
+      USING DETAIL = format('A product named %s already exists', v_product_name);
+  END IF;
+
+  UPDATE public.stock
+  SET product_name = v_product_name,
+      cost_price = p_cost_price,
+      reorder_level = p_reorder_level,
+      reorder_quantity = p_reorder_quantity,
+      updated_at = now()
+  WHERE id = p_stock_id;
+
+  IF p_cost_price <> v_stock.cost_price THEN
+    UPDATE public.stock_batches
+    SET unit_cost = p_cost_price
+    WHERE stock_id = p_stock_id
+      AND quantity_remaining > 0;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,98 @@
+-- Catalogue details for stock items
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS sku TEXT;
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS barcode TEXT;
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS category TEXT;
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS unit TEXT NOT NULL DEFAULT 'pcs';
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS selling_price DECIMAL(10, 2) CHECK (selling_price >= 0);
+ALTER TABLE public.stock ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.stock.selling_price IS 'Default selling price, prefilled when the product is sold';
+COMMENT ON COLUMN public.stock.is_active IS 'Inactive products are kept for history but cannot be picked for new sales';
+
+-- SKUs and barcodes identify one product per user
+CREATE UNIQUE INDEX IF NOT EXISTS stock_user_id_sku_key
+ON public.stock (user_id, sku)
+WHERE sku IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS stock_user_id_barcode_key
+ON public.stock (user_id, barcode)
+WHERE barcode IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS stock_category_idx ON public.stock(user_id, category);
+
+-- Edit the catalogue details along with name, cost and reorder settings
+DROP FUNCTION IF EXISTS public.update_stock_item(UUID, TEXT, NUMERIC, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.update_stock_item(
+  p_stock_id UUID,
+  p_product_name TEXT,
+  p_cost_price NUMERIC,
+  p_reorder_level INTEGER DEFAULT NULL,
+  p_reorder_quantity INTEGER DEFAULT NULL,
+  p_sku TEXT DEFAULT NULL,
+  p_barcode TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_unit TEXT DEFAULT 'pcs',
+  p_selling_price NUMERIC DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT true
+)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock public.stock%ROWTYPE;
+  v_product_name TEXT := NULLIF(trim(p_product_name), '');
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_product_name IS NULL THEN
+    RAISE EXCEPTION 'Product name is required';
+  END IF;
+
+  IF p_cost_price IS NULL OR p_cost_price < 0.01 THEN
+    RAISE EXCEPTION 'Cost price must be at least 0.01';
+  END IF;
+
+  SELECT * INTO v_stock
+  FROM public.stock
+  WHERE id = p_stock_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock item not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.stock
+    WHERE user_id = v_user_id
+      AND id <> p_stock_id
+      AND lower(trim(product_name)) = lower(v_product_name)
+  ) THEN
+    RAISE EXCEPTION 'duplicate_product'
+      USING DETAIL = format('A product named %s already exists', v_product_name);
+  END IF;
+
+  UPDATE public.stock
+  SET product_name = v_product_name,
+      cost_price = p_cost_price,
+      reorder_level = p_reorder_level,
+      reorder_quantity = p_reorder_quantity,
+      sku = NULLIF(trim(p_sku), ''),
+      barcode = NULLIF(trim(p_barcode), ''),
+      category = NULLIF(trim(p_category), ''),
+      unit = COALESCE(NULLIF(trim(p_unit), ''), 'pcs'),
+      selling_price = p_selling_price,
+      is_active = COALESCE(p_is_active, true),
+      updated_at = now()
+  WHERE id = p_stock_id;
+
+  IF p_cost_price <> v_stock.cost_price THEN
+    UPDATE public.stock_batches
+    SET unit_cost = p_cost_price
+    WHERE stock_id = p_stock_id
+      AND quantity_remaining > 0;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
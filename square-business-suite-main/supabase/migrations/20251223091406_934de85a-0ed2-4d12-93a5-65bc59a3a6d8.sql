@@ -0,0 +1,35 @@
+-- Create many debtors from a CSV import in one transaction, so a failing debtor
+-- rolls back the whole import instead of leaving half of the file behind.
+-- Each element carries the create_debtor arguments: customer_name, customer_phone,
+-- customer_email, items and initial_payment.
+CREATE OR REPLACE FUNCTION public.import_debtors(p_debtors JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_debtor JSONB;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_debtors IS NULL OR jsonb_typeof(p_debtors) <> 'array' OR jsonb_array_length(p_debtors) = 0 THEN
+    RAISE EXCEPTION 'At least one debtor is required';
+  END IF;
+
+  FOR v_debtor IN SELECT * FROM jsonb_array_elements(p_debtors)
+  LOOP
+    PERFORM public.create_debtor(
+      v_debtor->>'customer_name',
+      v_debtor->>'customer_phone',
+      v_debtor->>'customer_email',
+      v_debtor->'items',
+      COALESCE((v_debtor->>'initial_payment')::NUMERIC, 0),
+      'cash',
+      NULL
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
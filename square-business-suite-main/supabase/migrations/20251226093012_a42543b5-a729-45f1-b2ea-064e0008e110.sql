@@ -0,0 +1,339 @@
+-- Payment terms and due dates. A debtor can carry payment terms (net N days from
+-- each item's date) and/or a fixed due date; an item can carry its own due date,
+-- which wins over both. Only explicit dates are stored on items, so changing a
+-- debtor's terms moves the due dates of every item that follows them.
+ALTER TABLE public.debtors ADD COLUMN IF NOT EXISTS payment_terms INTEGER CHECK (payment_terms >= 0);
+ALTER TABLE public.debtors ADD COLUMN IF NOT EXISTS due_date DATE;
+ALTER TABLE public.debtors ADD COLUMN IF NOT EXISTS next_due_date DATE;
+ALTER TABLE public.debt_items ADD COLUMN IF NOT EXISTS due_date DATE;
+
+CREATE INDEX IF NOT EXISTS debtors_next_due_date_idx ON public.debtors(next_due_date);
+
+-- next_due_date is the earliest due date still unpaid. Payments settle items in
+-- due date order, so it is the due date of the first item the payments made so
+-- far do not cover. A debtor is overdue once that date has passed; comparing it
+-- with today happens at read time so the stored value never goes stale.
+CREATE OR REPLACE FUNCTION public.compute_debtor_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT COALESCE(SUM(total), 0) INTO NEW.grand_total
+  FROM public.debt_items
+  WHERE debtor_id = NEW.id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO NEW.total_paid
+  FROM public.payments
+  WHERE debtor_id = NEW.id
+    AND voided_at IS NULL;
+
+  NEW.current_balance = NEW.grand_total - NEW.total_paid;
+  NEW.status = CASE WHEN NEW.current_balance <= 0 THEN 'paid' ELSE 'pending' END;
+
+  SELECT MIN(effective_due_date) INTO NEW.next_due_date
+  FROM (
+    SELECT
+      effective_due_date,
+      SUM(total) OVER (ORDER BY effective_due_date NULLS LAST, item_date, created_at, id) AS running_total
+    FROM (
+      SELECT
+        id, item_date, created_at, total,
+        COALESCE(due_date, NEW.due_date, item_date + NEW.payment_terms) AS effective_due_date
+      FROM public.debt_items
+      WHERE debtor_id = NEW.id
+    ) items
+  ) allocated
+  WHERE running_total > NEW.total_paid;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Accept payment terms, a due date and per-item due dates when creating a debtor
+DROP FUNCTION IF EXISTS public.create_debtor(TEXT, TEXT, TEXT, JSONB, NUMERIC, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_debtor(
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_customer_email TEXT,
+  p_items JSONB,
+  p_initial_payment NUMERIC DEFAULT 0,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_payment_reference TEXT DEFAULT NULL,
+  p_payment_terms INTEGER DEFAULT NULL,
+  p_due_date DATE DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_debtor_id UUID;
+  v_payment NUMERIC := COALESCE(p_initial_payment, 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF v_payment < 0 THEN
+    RAISE EXCEPTION 'Payment amount cannot be negative';
+  END IF;
+
+  INSERT INTO public.debtors (user_id, customer_name, customer_phone, customer_email, payment_terms, due_date)
+  VALUES (
+    v_user_id, trim(p_customer_name), trim(p_customer_phone), NULLIF(trim(p_customer_email), ''),
+    p_payment_terms, p_due_date
+  )
+  RETURNING id INTO v_debtor_id;
+
+  INSERT INTO public.debt_items (debtor_id, stock_id, item_date, due_date, item_name, quantity, selling_price, total)
+  SELECT
+    v_debtor_id,
+    NULLIF(item->>'stock_id', '')::UUID,
+    (item->>'item_date')::DATE,
+    NULLIF(item->>'due_date', '')::DATE,
+    trim(item->>'item_name'),
+    (item->>'quantity')::INTEGER,
+    (item->>'selling_price')::NUMERIC,
+    (item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_payment > 0 THEN
+    INSERT INTO public.payments (debtor_id, amount, payment_method, reference)
+    VALUES (v_debtor_id, v_payment, COALESCE(p_payment_method, 'cash'), NULLIF(trim(p_payment_reference), ''));
+  END IF;
+
+  RETURN v_debtor_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Carry payment terms and due dates through a backup restore
+CREATE OR REPLACE FUNCTION public.restore_backup(p_backup JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_tables JSONB := p_backup->'tables';
+  v_item JSONB;
+  v_new_id UUID;
+  v_stock_map JSONB := '{}';
+  v_customer_map JSONB := '{}';
+  v_receipt_map JSONB := '{}';
+  v_debtor_map JSONB := '{}';
+  v_stock public.stock;
+  v_customer public.customers;
+  v_receipt public.receipts;
+  v_sale public.sales;
+  v_debtor public.debtors;
+  v_debt_item public.debt_items;
+  v_payment public.payments;
+  v_expense public.expenses;
+  v_settings public.user_settings;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_backup IS NULL OR (p_backup->>'version')::INTEGER IS DISTINCT FROM 1 OR jsonb_typeof(v_tables) <> 'object' THEN
+    RAISE EXCEPTION 'Unsupported backup version';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_tables->'stock', '[]'))
+  LOOP
+    v_stock := jsonb_populate_record(NULL::public.stock, v_item);
+
+    IF EXISTS (
+      SELECT 1 FROM public.stock
+      WHERE user_id = v_user_id
+        AND lower(trim(product_name)) = lower(trim(v_stock.product_name))
+    ) THEN
+      RAISE EXCEPTION 'Product "%" already exists in this account', v_stock.product_name;
+    END IF;
+
+    PERFORM public.set_stock_movement('receipt', NULL, 'Restored from backup', v_stock.cost_price);
+
+    INSERT INTO public.stock (
+      user_id, product_name, quantity, cost_price, total_sold, reorder_level, reorder_quantity,
+      sku, barcode, category, unit, selling_price, is_active, created_at
+    )
+    VALUES (
+      v_user_id, v_stock.product_name, v_stock.quantity, v_stock.cost_price, COALESCE(v_stock.total_sold, 0),
+      v_stock.reorder_level, v_stock.reorder_quantity, v_stock.sku, v_stock.barcode, v_stock.category,
+      COALESCE(v_stock.unit, 'pcs'), v_stock.selling_price, COALESCE(v_stock.is_active, true),
+      COALESCE(v_stock.created_at, now())
+    )
+    RETURNING id INTO v_new_id;
+
+    v_stock_map := v_stock_map || jsonb_build_object(v_stock.id::TEXT, v_new_id);
+  END LOOP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_tables->'customers', '[]'))
+  LOOP
+    v_customer := jsonb_populate_record(NULL::public.customers, v_item);
+
+    INSERT INTO public.customers (user_id, name, phone, email, created_at)
+    VALUES (v_user_id, v_customer.name, v_customer.phone, v_customer.email, COALESCE(v_customer.created_at, now()))
+    ON CONFLICT (user_id, phone_normalized)
+    DO UPDATE SET email = COALESCE(public.customers.email, EXCLUDED.email)
+    RETURNING id INTO v_new_id;
+
+    v_customer_map := v_customer_map || jsonb_build_object(v_customer.id::TEXT, v_new_id);
+  END LOOP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_tables->'receipts', '[]'))
+  LOOP
+    v_receipt := jsonb_populate_record(NULL::public.receipts, v_item);
+
+    IF EXISTS (
+      SELECT 1 FROM public.receipts
+      WHERE user_id = v_user_id
+        AND receipt_number = v_receipt.receipt_number
+    ) THEN
+      RAISE EXCEPTION 'Receipt % already exists in this account', v_receipt.receipt_number;
+    END IF;
+
+    INSERT INTO public.receipts (
+      user_id, receipt_number, customer_id, payment_method, sale_date, sale_time,
+      subtotal, discount, total, created_at
+    )
+    VALUES (
+      v_user_id, v_receipt.receipt_number, (v_customer_map->>v_receipt.customer_id::TEXT)::UUID,
+      v_receipt.payment_method, v_receipt.sale_date, v_receipt.sale_time,
+      v_receipt.subtotal, v_receipt.discount, v_receipt.total, COALESCE(v_receipt.created_at, now())
+    )
+    RETURNING id INTO v_new_id;
+
+    v_receipt_map := v_receipt_map || jsonb_build_object(v_receipt.id::TEXT, v_new_id);
+  END LOOP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_tables->'sales', '[]'))
+  LOOP
+    v_sale := jsonb_populate_record(NULL::public.sales, v_item);
+
+    INSERT INTO public.sales (
+      user_id, receipt_id, stock_id, customer_id, sale_date, sale_time, product_name, quantity,
+      cost_price, selling_price, discount, total_cost, revenue, profit_loss, created_at
+    )
+    VALUES (
+      v_user_id,
+      (v_receipt_map->>v_sale.receipt_id::TEXT)::UUID,
+      (v_stock_map->>v_sale.stock_id::TEXT)::UUID,
+      (v_customer_map->>v_sale.customer_id::TEXT)::UUID,
+      v_sale.sale_date, v_sale.sale_time, v_sale.product_name, v_sale.quantity,
+      v_sale.cost_price, v_sale.selling_price, COALESCE(v_sale.discount, 0),
+      v_sale.total_cost, v_sale.revenue, v_sale.profit_loss, COALESCE(v_sale.created_at, now())
+    );
+  END LOOP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_tables->'debtors', '[]'))
+  LOOP
+    v_debtor := jsonb_populate_record(NULL::public.debtors, v_item);
+
+    INSERT INTO public.debtors (
+      user_id, customer_id, customer_name, customer_phone, customer_email, payment_terms, due_date, created_at
+    )
+    VALUES (
+      v_user_id, (v_customer_map->>v_debtor.customer_id::TEXT)::UUID, v_debtor.customer_name,
+      v_debtor.customer_phone, v_debtor.customer_email, v_debtor.payment_terms, v_debtor.due_date,
+      COALESCE(v_debtor.created_at, now())
+    )
+    RETURNING id INTO v_new_id;
+
+    v_debtor_map := v_debtor_map || jsonb_build_object(v_debtor.id::TEXT, v_new_id);
+  END LOOP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_tables->'debt_items', '[]'))
+  LOOP
+    v_debt_item := jsonb_populate_record(NULL::public.debt_items, v_item);
+
+    IF v_debtor_map->>v_debt_item.debtor_id::TEXT IS NULL THEN
+      RAISE EXCEPTION 'Backup is inconsistent: item "%" belongs to a missing debtor', v_debt_item.item_name;
+    END IF;
+
+    INSERT INTO public.debt_items (
+      debtor_id, item_date, due_date, item_name, quantity, selling_price, total, cost_price, created_at
+    )
+    VALUES (
+      (v_debtor_map->>v_debt_item.debtor_id::TEXT)::UUID, v_debt_item.item_date, v_debt_item.due_date,
+      v_debt_item.item_name, v_debt_item.quantity, v_debt_item.selling_price, v_debt_item.total,
+      v_debt_item.cost_price, COALESCE(v_debt_item.created_at, now())
+    )
+    RETURNING id INTO v_new_id;
+
+    UPDATE public.debt_items
+    SET stock_id = (v_stock_map->>v_debt_item.stock_id::TEXT)::UUID
+    WHERE id = v_new_id
+      AND v_debt_item.stock_id IS NOT NULL;
+  END LOOP;
+
+  -- Voided payments go in first, while the full balance is still open, and are
+  -- voided straight away so they never count against the live payments
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(COALESCE(v_tables->'payments', '[]'))
+    ORDER BY (value->>'voided_at') IS NULL, value->>'payment_date'
+  LOOP
+    v_payment := jsonb_populate_record(NULL::public.payments, v_item);
+
+    IF v_debtor_map->>v_payment.debtor_id::TEXT IS NULL THEN
+      RAISE EXCEPTION 'Backup is inconsistent: a payment belongs to a missing debtor';
+    END IF;
+
+    INSERT INTO public.payments (debtor_id, amount, payment_date, payment_method, reference, note, created_at)
+    VALUES (
+      (v_debtor_map->>v_payment.debtor_id::TEXT)::UUID, v_payment.amount, COALESCE(v_payment.payment_date, now()),
+      COALESCE(v_payment.payment_method, 'cash'), v_payment.reference, v_payment.note,
+      COALESCE(v_payment.created_at, now())
+    )
+    RETURNING id INTO v_new_id;
+
+    IF v_payment.voided_at IS NOT NULL THEN
+      UPDATE public.payments
+      SET voided_at = v_payment.voided_at,
+          voided_by = v_user_id,
+          void_reason = v_payment.void_reason
+      WHERE id = v_new_id;
+    END IF;
+  END LOOP;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(v_tables->'expenses', '[]'))
+  LOOP
+    v_expense := jsonb_populate_record(NULL::public.expenses, v_item);
+
+    INSERT INTO public.expenses (user_id, expense_date, category, description, amount, created_at)
+    VALUES (
+      v_user_id, v_expense.expense_date, v_expense.category, v_expense.description, v_expense.amount,
+      COALESCE(v_expense.created_at, now())
+    );
+  END LOOP;
+
+  IF jsonb_array_length(COALESCE(v_tables->'user_settings', '[]')) > 0 THEN
+    v_settings := jsonb_populate_record(NULL::public.user_settings, v_tables->'user_settings'->0);
+
+    INSERT INTO public.user_settings (
+      user_id, business_name, currency, theme, profit_margin_goal, low_stock_threshold, costing_method
+    )
+    VALUES (
+      v_user_id, v_settings.business_name, v_settings.currency, v_settings.theme, v_settings.profit_margin_goal,
+      COALESCE(v_settings.low_stock_threshold, 10), COALESCE(v_settings.costing_method, 'weighted_average')
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      business_name = EXCLUDED.business_name,
+      currency = EXCLUDED.currency,
+      theme = EXCLUDED.theme,
+      profit_margin_goal = EXCLUDED.profit_margin_goal,
+      low_stock_threshold = EXCLUDED.low_stock_threshold,
+      costing_method = EXCLUDED.costing_method,
+      updated_at = now();
+  END IF;
+
+  RETURN jsonb_build_object(
+    'stock', (SELECT COUNT(*) FROM jsonb_object_keys(v_stock_map)),
+    'customers', (SELECT COUNT(*) FROM jsonb_object_keys(v_customer_map)),
+    'receipts', (SELECT COUNT(*) FROM jsonb_object_keys(v_receipt_map)),
+    'sales', jsonb_array_length(COALESCE(v_tables->'sales', '[]')),
+    'debtors', (SELECT COUNT(*) FROM jsonb_object_keys(v_debtor_map)),
+    'debt_items', jsonb_array_length(COALESCE(v_tables->'debt_items', '[]')),
+    'payments', jsonb_array_length(COALESCE(v_tables->'payments', '[]')),
+    'expenses', jsonb_array_length(COALESCE(v_tables->'expenses', '[]'))
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
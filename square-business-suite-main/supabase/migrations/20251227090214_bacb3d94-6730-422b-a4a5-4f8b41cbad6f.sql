@@ -0,0 +1,142 @@
+-- Only attach receipts and sales to one of the signed-in user's own customers;
+-- the foreign key alone would accept another user's customer id.
+CREATE OR REPLACE FUNCTION public.record_receipt(
+  p_sale_date DATE,
+  p_sale_time TIME,
+  p_items JSONB,
+  p_customer_id UUID DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_discount NUMERIC DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_receipt_id UUID;
+  v_receipt_number TEXT;
+  v_subtotal NUMERIC;
+  v_discount NUMERIC := COALESCE(p_discount, 0);
+  v_discount_left NUMERIC;
+  v_line_count INTEGER;
+  v_index INTEGER := 0;
+  v_item JSONB;
+  v_stock_id UUID;
+  v_product_name TEXT;
+  v_quantity INTEGER;
+  v_cost_price NUMERIC;
+  v_selling_price NUMERIC;
+  v_line_total NUMERIC;
+  v_line_discount NUMERIC;
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.customers
+    WHERE id = p_customer_id
+      AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  v_line_count := jsonb_array_length(p_items);
+
+  SELECT SUM((item->>'quantity')::INTEGER * (item->>'selling_price')::NUMERIC)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS item;
+
+  IF v_discount < 0 OR v_discount > v_subtotal THEN
+    RAISE EXCEPTION 'Discount must be between 0 and the basket subtotal';
+  END IF;
+
+  -- Receipt numbers run sequentially per user; the advisory lock serialises concurrent checkouts
+  PERFORM pg_advisory_xact_lock(hashtext('receipt_number:' || v_user_id::TEXT));
+
+  SELECT 'RCP-' || lpad((COALESCE(MAX(substring(receipt_number FROM 5)::INTEGER), 0) + 1)::TEXT, 6, '0')
+  INTO v_receipt_number
+  FROM public.receipts
+  WHERE user_id = v_user_id;
+
+  INSERT INTO public.receipts (
+    user_id, receipt_number, customer_id, payment_method,
+    sale_date, sale_time, subtotal, discount, total
+  )
+  VALUES (
+    v_user_id, v_receipt_number, p_customer_id, COALESCE(p_payment_method, 'cash'),
+    p_sale_date, p_sale_time, v_subtotal, v_discount, v_subtotal - v_discount
+  )
+  RETURNING id INTO v_receipt_id;
+
+  v_discount_left := v_discount;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_index := v_index + 1;
+    v_stock_id := NULLIF(v_item->>'stock_id', '')::UUID;
+    v_product_name := trim(v_item->>'product_name');
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_cost_price := (v_item->>'cost_price')::NUMERIC;
+    v_selling_price := (v_item->>'selling_price')::NUMERIC;
+    v_line_total := v_quantity * v_selling_price;
+
+    IF v_quantity < 1 THEN
+      RAISE EXCEPTION 'Quantity must be at least 1';
+    END IF;
+
+    -- Spread the discount across lines by value; the last line takes the rounding remainder
+    IF v_index = v_line_count THEN
+      v_line_discount := v_discount_left;
+    ELSE
+      v_line_discount := round(v_discount * v_line_total / NULLIF(v_subtotal, 0), 2);
+    END IF;
+    v_discount_left := v_discount_left - v_line_discount;
+
+    IF v_stock_id IS NOT NULL THEN
+      SELECT * INTO v_stock
+      FROM public.stock
+      WHERE id = v_stock_id
+        AND user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock item not found';
+      END IF;
+
+      IF v_stock.quantity < v_quantity THEN
+        RAISE EXCEPTION 'insufficient_stock'
+          USING DETAIL = format('Only %s units of %s available in stock', v_stock.quantity, v_stock.product_name);
+      END IF;
+
+      v_product_name := v_stock.product_name;
+      v_cost_price := public.stock_issue_cost(v_stock.id, v_quantity);
+
+      PERFORM public.set_stock_movement('sale', v_receipt_id, v_receipt_number);
+
+      UPDATE public.stock
+      SET quantity = quantity - v_quantity,
+          total_sold = total_sold + v_quantity,
+          updated_at = now()
+      WHERE id = v_stock.id;
+    END IF;
+
+    INSERT INTO public.sales (
+      user_id, receipt_id, stock_id, customer_id, sale_date, sale_time, product_name, quantity,
+      cost_price, selling_price, discount, total_cost, revenue, profit_loss
+    )
+    VALUES (
+      v_user_id, v_receipt_id, v_stock_id, p_customer_id, p_sale_date, p_sale_time, v_product_name, v_quantity,
+      v_cost_price, v_selling_price, v_line_discount,
+      v_quantity * v_cost_price,
+      v_line_total - v_line_discount,
+      v_line_total - v_line_discount - v_quantity * v_cost_price
+    );
+  END LOOP;
+
+  RETURN v_receipt_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
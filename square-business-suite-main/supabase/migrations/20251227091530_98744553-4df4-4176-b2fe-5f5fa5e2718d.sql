@@ -0,0 +1,33 @@
+-- Put goods back on the shelf when a credit item is removed, either directly or
+-- through deleting its debtor. The quantity returns at the cost it left with.
+CREATE OR REPLACE FUNCTION public.restore_debt_item_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.stock_id IS NULL THEN
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.set_stock_movement(
+    'return',
+    OLD.id,
+    format('Credit item deleted: %s', OLD.item_name),
+    OLD.cost_price
+  );
+
+  UPDATE public.stock
+  SET quantity = quantity + OLD.quantity,
+      total_sold = GREATEST(total_sold - OLD.quantity, 0),
+      updated_at = now()
+  WHERE id = OLD.stock_id;
+
+  -- The stock row may be gone; do not leave the context for an unrelated change
+  PERFORM public.set_stock_movement(NULL);
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER restore_debt_items_stock
+AFTER DELETE ON public.debt_items
+FOR EACH ROW
+EXECUTE FUNCTION public.restore_debt_item_stock();
@@ -0,0 +1,95 @@
+-- stock_takes has no update policy, so the totals commit_stock_take wrote after the
+-- lines never landed and every stock take read as zero variance. Work the totals
+-- out from the locked stock rows first and insert them with the stock take itself.
+CREATE OR REPLACE FUNCTION public.commit_stock_take(
+  p_reason TEXT,
+  p_counts JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stock_take_id UUID;
+  v_reason TEXT := NULLIF(trim(p_reason), '');
+  v_count JSONB;
+  v_counted INTEGER;
+  v_variance INTEGER;
+  v_total_variance INTEGER := 0;
+  v_total_variance_value NUMERIC := 0;
+  v_stock public.stock%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  IF p_counts IS NULL OR jsonb_typeof(p_counts) <> 'array' OR jsonb_array_length(p_counts) = 0 THEN
+    RAISE EXCEPTION 'At least one counted product is required';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'stock_id') FROM jsonb_array_elements(p_counts)) <> jsonb_array_length(p_counts) THEN
+    RAISE EXCEPTION 'Each product can only be counted once';
+  END IF;
+
+  -- Lock every counted product and total the variance before anything is written
+  FOR v_count IN SELECT * FROM jsonb_array_elements(p_counts)
+  LOOP
+    v_counted := (v_count->>'counted_quantity')::INTEGER;
+
+    IF v_counted IS NULL OR v_counted < 0 THEN
+      RAISE EXCEPTION 'Counted quantity cannot be negative';
+    END IF;
+
+    SELECT * INTO v_stock
+    FROM public.stock
+    WHERE id = (v_count->>'stock_id')::UUID
+      AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Stock item not found';
+    END IF;
+
+    v_variance := v_counted - v_stock.quantity;
+    v_total_variance := v_total_variance + v_variance;
+    v_total_variance_value := v_total_variance_value + v_variance * v_stock.cost_price;
+  END LOOP;
+
+  INSERT INTO public.stock_takes (user_id, reason, total_variance, total_variance_value)
+  VALUES (v_user_id, v_reason, v_total_variance, v_total_variance_value)
+  RETURNING id INTO v_stock_take_id;
+
+  FOR v_count IN SELECT * FROM jsonb_array_elements(p_counts)
+  LOOP
+    v_counted := (v_count->>'counted_quantity')::INTEGER;
+
+    SELECT * INTO v_stock
+    FROM public.stock
+    WHERE id = (v_count->>'stock_id')::UUID;
+
+    v_variance := v_counted - v_stock.quantity;
+
+    INSERT INTO public.stock_take_lines (
+      stock_take_id, stock_id, product_name, system_quantity,
+      counted_quantity, variance, cost_price, variance_value
+    )
+    VALUES (
+      v_stock_take_id, v_stock.id, v_stock.product_name, v_stock.quantity,
+      v_counted, v_variance, v_stock.cost_price, v_variance * v_stock.cost_price
+    );
+
+    IF v_variance <> 0 THEN
+      PERFORM public.set_stock_movement('adjustment', v_stock_take_id, 'Stock take: ' || v_reason);
+
+      UPDATE public.stock
+      SET quantity = v_counted,
+          updated_at = now()
+      WHERE id = v_stock.id;
+    END IF;
+  END LOOP;
+
+  RETURN v_stock_take_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
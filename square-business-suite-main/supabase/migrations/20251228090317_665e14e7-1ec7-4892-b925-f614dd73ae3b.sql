@@ -0,0 +1,8 @@
+-- Audit entries were insertable by any signed-in user, so a client could write
+-- entries for corrections that never happened. Only edit_payment and void_payment
+-- add them now: they run with the owner's rights, and still only act on payments
+-- of the caller's own debtors.
+DROP POLICY IF EXISTS "Users can create their own payment audit entries" ON public.payment_audit;
+
+ALTER FUNCTION public.edit_payment(UUID, NUMERIC, TEXT) SECURITY DEFINER;
+ALTER FUNCTION public.void_payment(UUID, TEXT) SECURITY DEFINER;